@@ -8,7 +8,7 @@
 //% color=#7c68b4
 //% icon="\uf0a1"
 //% block="FlexFX"
-//% groups="['Playing (micro:bit V2)', 'Play-list (micro:bit V2)', 'Creating (micro:bit V2)']"
+//% groups="['Playing (micro:bit V2)', 'Play-list (micro:bit V2)', 'Ensemble (micro:bit V2)', 'Creating (micro:bit V2)']"
 namespace flexFX {
     // Simplify the selection of wave-shape...
     export enum Wave {
@@ -33,8 +33,17 @@ namespace flexFX {
         Medium = InterpolationCurve.Curve,
         //% block="even"
         Even = InterpolationCurve.Linear,
-        //% block="delayed"   *** option temporarily removed...
-        // Delayed = 99 later, mapped to Sine or Cosine, depending on slope of profile
+        // the remaining curves are built in software, from several short straight-line steps
+        //% block="delayed"
+        Delayed = 99,
+        //% block="ease in"
+        EaseIn,
+        //% block="ease out"
+        EaseOut,
+        //% block="S-curve"
+        SCurve,
+        //% block="exponential"
+        Exponential
     }
     // Simplify (slightly) the selection of modulation-style...
     export enum Effect {
@@ -48,6 +57,28 @@ namespace flexFX {
         Warble = SoundExpressionEffect.Warble
     }
 
+    // how a part of a FlexFX copes when the whole FlexFX is played for a different duration
+    export enum Stretch {
+        //% block="proportional"
+        Proportional,
+        //% block="fixed"
+        Fixed,
+        //% block="elastic"
+        Elastic
+    }
+
+    // the shape of each wobble made by an LFO
+    export enum LFOShape {
+        //% block="sine"
+        Sine,
+        //% block="triangle"
+        Triangle,
+        //% block="square"
+        Square,
+        //% block="sawtooth"
+        Sawtooth
+    }
+
     // drop-down selection of built-in FlexFXs
     export enum BuiltInFlexFX {
         //% block="chime"
@@ -129,6 +160,47 @@ namespace flexFX {
         BachViolin
     }
 
+    // drop-down selection of scales (and modes) for making up Tunes
+    export enum Scale {
+        //% block="major"
+        Major,
+        //% block="minor"
+        Minor,
+        //% block="harmonic minor"
+        HarmonicMinor,
+        //% block="major pentatonic"
+        MajorPentatonic,
+        //% block="minor pentatonic"
+        MinorPentatonic,
+        //% block="blues"
+        Blues,
+
+        //% block="dorian"
+        Dorian,
+        //% block="phrygian"
+        Phrygian,
+        //% block="lydian"
+        Lydian,
+        //% block="mixolydian"
+        Mixolydian,
+        //% block="locrian"
+        Locrian
+    }
+
+    // drop-down selection of tuning systems
+    export enum Tuning {
+        //% block="equal temperament"
+        Equal,
+        //% block="just intonation"
+        Just,
+        //% block="Pythagorean"
+        Pythagorean,
+        //% block="quarter-comma meantone"
+        Meantone,
+        //% block="well-tempered (Werckmeister III)"
+        WellTempered
+    }
+
     // range-clamper:
     function clamp(bottom: number, input: number, top: number): number {
         return (Math.max(bottom, Math.min(input, top)));
@@ -138,20 +210,39 @@ namespace flexFX {
     // a SEMITONE ratio = 12th root of 2 (as 12 semitones make an octave, which doubles the frequency)
     const SEMILOG = 0.057762265047;    // =  Math.log(2) / 12;
     const SEMITONE = 1.0594630943593;  // = Math.exp(SEMILOG) 
-    const DELTA = 36.3763165623;       // = (Math.log(440) / SEMILOG) - 69;
+
+    // for each Tuning, how far (in cents) each semitone above the tuning's key-note strays from equal temperament
+    const TUNING_CENTS = [
+        [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+        [0, 11.73, 3.91, 15.64, -13.69, -1.96, -9.78, 1.96, 13.69, -15.64, 17.6, -11.73], // (5-limit ratios)
+        [0, -9.78, 3.91, -5.87, 7.82, -1.96, 11.73, 1.96, -7.82, 5.87, -3.91, 9.78], // (pure fifths)
+        [0, -23.95, -6.84, 10.26, -13.69, 3.42, -20.53, -3.42, -27.37, -10.26, 6.84, -17.11], // (pure major thirds)
+        [0, -9.78, -7.82, -5.87, -9.78, -1.96, -11.73, -3.91, -7.82, -11.73, -3.91, -7.82]];
 
     // convert a frequency in Hz to its Midi note-number 
-    // (retaining microtonal fractions)
+    // (retaining microtonal fractions, and relative to the current concert pitch)
     function hertzToMidi(pitch: number): number {
-        return ((Math.log(pitch) / SEMILOG) - DELTA);
+        return ((Math.log(pitch / concertPitch) / SEMILOG) + 69);
+    }
+
+    // convert a (fractional) Midi note-number back to its exact frequency in Hz
+    // (the true inverse of hertzToMidi: unlike midiToHertz, ignoring the tuning, and not rounding)
+    function exactHertz(midi: number): number {
+        return concertPitch * (2 ** ((midi - 69) / 12));
     }
 
-    // convert a Midi note-number to nearest integer frequency in Hz
-    // (based on A4 = 440 Hz = MIDI 69)
-    function midiToHertz(midi: number): number {
-        return (Math.round(440 * (2 ** ((midi - 69) / 12))));
+    // convert a Midi note-number to nearest integer frequency in Hz, using the current tuning
+    // (based on A4 = concertPitch Hz = MIDI 69, which every tuning leaves in place), 
+    // then shifted by any microtonal offset (in cents) from that tuned semitone
+    function midiToHertz(midi: number, cents: number = 0): number {
+        let semi = Math.floor(midi);
+        let offset = tuningCents[(semi - tuningKey + 120) % 12] - tuningCents[(69 - tuningKey + 120) % 12];
+        return (Math.round(concertPitch * (2 ** ((midi - 69 + (offset + cents) / 100) / 12))));
     }
 
+    // semitone offsets of the natural keys [C,D,E,F,G,A,B]
+    const NATURAL_SEMIS = [0, 2, 4, 5, 7, 9, 11];
+
     // note-lengths in ticks (quarter-beats)
     const QUAVER_TICKS = 2;
     const CROTCHET_TICKS = 4;
@@ -160,6 +251,49 @@ namespace flexFX {
 
     // for default Tempo of 120 BPM... 
     const DEFAULT_TICKMS = 125; //  = (60*1000) / (4*120)
+    const SLUR_MS = 20; // how quickly a slur moves from one note to the next in legato mode
+    // the most that fully humanised notes get nudged in timing, tuning and loudness
+    const HUMANISE_MS = 30;
+    const HUMANISE_CENTS = 15;
+    const HUMANISE_VOLUME = 0.2;
+
+    // note-volumes [0..255] for EKO dynamics markings, (relative to the volumeLimit used by playTune)
+    const DYNAMIC_PP = 48;
+    const DYNAMIC_P = 80;
+    const DYNAMIC_MP = 112;
+    const DYNAMIC_MF = 160;
+    const DYNAMIC_F = 208;
+    const DYNAMIC_FF = 255; // (also the default, when no marking has yet been given)
+    const ACCENT_BOOST = 1.25; // an accented note is 25% louder than its surroundings (if it can be!)
+
+    // reasons why an EKO note-specifier might be rejected
+    enum EKOFault {
+        None,
+        EmptyNote,
+        MissingExtent,
+        BadKey,
+        BadAccidental,
+        MissingOctave,
+        SpuriousChars,
+        BadCents,
+        BadChord // (from arpeggiate, rather than EKO-notation)
+    }
+
+    // explain an EKOFault in words
+    function describeFault(fault: EKOFault): string {
+        switch (fault) {
+            case EKOFault.None: return "no error";
+            case EKOFault.EmptyNote: return "empty note (extra space?)";
+            case EKOFault.MissingExtent: return "missing extent";
+            case EKOFault.BadKey: return "bad key letter";
+            case EKOFault.BadAccidental: return "bad accidental";
+            case EKOFault.MissingOctave: return "missing octave";
+            case EKOFault.SpuriousChars: return "unexpected characters";
+            case EKOFault.BadCents: return "bad cents offset";
+            case EKOFault.BadChord: return "unknown chord symbol";
+        }
+        return "unknown error";
+    }
 
     // (Basically, a TuneStep is a musical Note, but renamed to avoid confusion with the native "Note")
     class TuneStep {
@@ -167,14 +301,39 @@ namespace flexFX {
         midi: number = -1; // standard MIDI note-number
         pitch: number = 0; // frequency in Hz
         volume: number = 0;  // UI volume [0..255] (gets quadrupled internally)
+        accented: boolean = false; // EKO spec ended with "!"
+        slurred: boolean = false; // EKO spec ended with "_" (or "/"): joined smoothly onto the next note
+        glides: boolean = false; // EKO spec ended with "/": pitch slides into the next note
+        marked: boolean = false; // EKO spec gave an accidental [#, b or n], overriding any key signature
+        cents: number = 0; // microtonal offset from an EKO "+nn" or "-nn" suffix (so "+50" is a quarter-tone sharp)
+        bpm: number = 0; // tempo set by EKO tempo markings (or 0 to adopt the Tune's tempo)
+        fault: EKOFault = EKOFault.None; // why the EKO spec was rejected (if it was)
+        faultAt: number = 0; // offset within the EKO spec where the fault was found
 
         //debug: string = ""; // saves the EKO source, (just for debug)
 
-        // create using a 3-part EKO-notation specifier: {extent}{key}{octave}
+        // create using a 3-part EKO-notation specifier: {extent}{key}{octave}, maybe followed by {cents}
         // (we need to be defensive about parsing malformed EKO strings!)
         constructor(spec: string) {
             //this.debug = spec; // (save our input string for debug purposes)
             let chars = spec.toUpperCase();
+            // a trailing "!" accents this note; "_" slurs it onto the next; "/" glides into the next
+            let done = false;
+            while ((chars.length > 1) && !done) {
+                switch (chars.charAt(chars.length - 1)) {
+                    case "!": this.accented = true;
+                        break;
+                    case "_": this.slurred = true;
+                        break;
+                    case "/": this.slurred = true;
+                        this.glides = true;
+                        break;
+                    default: done = true;
+                }
+                if (!done) {
+                    chars = chars.substr(0, chars.length - 1);
+                }
+            }
             let here = 0;
             let nExtent = this.countDigits(chars, here);
             if (nExtent > 0) {
@@ -182,20 +341,27 @@ namespace flexFX {
                 // now parse the Key
                 here += nExtent;
                 let key = this.parseKey(chars.charCodeAt(here));
+                if (key < 0) this.flag(EKOFault.BadKey, here);
                 here++;
                 // for a silent musical rest: key = 12, and {Octave} is absent
                 if ((key > -1) && (key < 12)) { // good Key-letter; not a Rest
-                    this.volume = 255; // (as yet, EKO offers no way of adding dynamics)
-                    // adjust for accidentals [# or b] ?
+                    this.volume = DYNAMIC_FF; // (until the Tune applies any dynamics markings)
+                    // adjust for accidentals [#, b or n (natural)] ?
                     let nOctave = this.countDigits(chars, here);
                     if (nOctave == 0) { // no Octave digits found yet
                         let asc = chars.charCodeAt(here); // =the character after Key=letter
+                        this.marked = true;
                         switch (asc) {
                             case 35: key++; // "#"
                                 break;
                             case 66: key--; // "B"
                                 break;
+                            case 78: // "N" (a natural: just cancels the key signature)
+                                break;
                             default: key = -999; // midi will be end up negative!
+                                if (here < chars.length) {
+                                    this.flag(EKOFault.BadAccidental, here);
+                                }
                         }
                         here++;
                         // keep looking for Octave digits
@@ -208,26 +374,62 @@ namespace flexFX {
                         // get MIDI from key & octave (careful: MIDI for C0 is 12)
                         this.midi = 12 * (octave + 1) + key;
                         here += nOctave;
+                        // an optional microtonal offset, in cents [+ or - up to 100]
+                        let sign = chars.charAt(here);
+                        if ((sign == "+") || (sign == "-")) {
+                            here++;
+                            let nCents = this.countDigits(chars, here);
+                            if (nCents > 0) {
+                                this.cents = Math.min(parseInt(chars.substr(here, nCents)), 100);
+                                if (sign == "-") this.cents = -this.cents;
+                                here += nCents;
+                            } else {
+                                this.flag(EKOFault.BadCents, here);
+                            }
+                        }
                     } else {
-
+                        this.flag(EKOFault.MissingOctave, Math.min(here, chars.length));
                     }
                 } // else a bad Key-letter, or a Rest
                 if (key === 12) { // for a Rest...
                     this.midi = 0; // ...lack of octave is OK
                 }
-            } // else a missing Extent
+            } else { // a missing Extent
+                if (chars.length == 0) {
+                    this.flag(EKOFault.EmptyNote, 0);
+                } else {
+                    this.flag(EKOFault.MissingExtent, 0);
+                }
+            }
 
             // check for errors and substitute an alert
             if ((this.ticks < 0)  // bad Extent?
                 || (this.midi < 0)   // bad Key or Octave?
-                || (here < chars.length)) { // spurious extra chars?
+                || (here < chars.length) // spurious extra chars?
+                || (this.fault != EKOFault.None)) { // (e.g. bad cents)
+                this.flag(EKOFault.SpuriousChars, here);
                 // insert a long high-pitched C8 error-tone
                 this.ticks = 16;
                 this.midi = 108;
+                this.cents = 0;
                 this.volume = 255;
             }
-            this.pitch = midiToHertz(this.midi);
+            this.pitch = midiToHertz(this.midi, this.cents);
+
+        }
+
+        // how long (ms) this note lasts, at its own tempo (if it has one), or else at the one given
+        lastsMs(defaultBpm: number): number {
+            let bpm = (this.bpm > 0) ? this.bpm : defaultBpm;
+            return (this.ticks * 15000) / bpm;
+        }
 
+        // remember the first fault found (later ones are usually just knock-on effects)
+        flag(fault: EKOFault, offset: number) {
+            if (this.fault == EKOFault.None) {
+                this.fault = fault;
+                this.faultAt = offset;
+            }
         }
 
         // count consecutive digits in text from start onwards
@@ -241,6 +443,24 @@ namespace flexFX {
             return (i - start);
         }
 
+        // set the loudness of a sounding note from the current dynamic level
+        applyDynamic(level: number) {
+            if ((this.volume > 0) && (this.fault == EKOFault.None)) { // (Rests stay silent; error-tones stay loud)
+                if (this.accented) {
+                    level = Math.min(level * ACCENT_BOOST, DYNAMIC_FF);
+                }
+                this.volume = level;
+            }
+        }
+
+        // sharpen or flatten an unmarked note, as the key signature says
+        applyKey(key: KeySignature) {
+            if ((key != null) && !this.marked && (this.midi > 0) && (this.fault == EKOFault.None)) {
+                this.midi += key.shifts[NATURAL_SEMIS.indexOf(this.midi % 12)];
+                this.pitch = midiToHertz(this.midi, this.cents);
+            }
+        }
+
         // parse the key as semitone-in-octave [0 to 11] or 12 for a Rest
         parseKey(asc: number): number {
             let semi = -1;
@@ -257,230 +477,1812 @@ namespace flexFX {
         }
     }
 
+    // dynamic level [0..255] for an EKO dynamics marking, or RAMP_MARKING for "<" or ">", 
+    // or NOT_A_MARKING if it isn't one (so should be a note)
+    const RAMP_MARKING = 0;
+    const NOT_A_MARKING = -1;
+    function markingLevel(spec: string): number {
+        switch (spec.toUpperCase()) {
+            case "PP": return DYNAMIC_PP;
+            case "P": return DYNAMIC_P;
+            case "MP": return DYNAMIC_MP;
+            case "MF": return DYNAMIC_MF;
+            case "F": return DYNAMIC_F;
+            case "FF": return DYNAMIC_FF;
+            case "<":
+            case ">": return RAMP_MARKING;
+        }
+        return NOT_A_MARKING;
+    }
+
+    // tempo (BPM) for an EKO tempo marking "=nnn", or RAMP_MARKING for "~" (a gradual change), 
+    // or NOT_A_MARKING if it isn't one
+    function tempoMarking(spec: string): number {
+        if (spec == "~") return RAMP_MARKING;
+        if ((spec.length > 1) && (spec.charAt(0) == "=")) {
+            let bpm = parseInt(spec.substr(1));
+            if ((bpm > 0) && (convertToText(bpm) == spec.substr(1))) {
+                return clamp(30, bpm, 480);
+            }
+        }
+        return NOT_A_MARKING;
+    }
+
+    // the modes, in order of the degree of the major scale that each starts on,
+    // with the names used in key signatures, and how each shifts the signature around the circle of fifths
+    const MODE_NAMES = ["", "dor", "phr", "lyd", "mix", "m", "loc"];
+    const MODE_FIFTHS = [0, -2, -4, 1, -1, -3, -5];
+
+    /*
+        A KeySignature reads a key like "G", "Bb", "F#m" or "Ddor" (as used both in EKO
+        and ABC-notation), working out its tonic, its mode, and which key-letters it sharpens or flattens.
+    */
+    class KeySignature {
+        name: string; // tidied-up name, e.g. "F#m"
+        root: string; // the tonic's key-letter and accidental, e.g. "F#"
+        tonic: number; // the tonic as semitone-in-octave [0 to 11]
+        mode: number; // which degree of the major scale the mode starts on (0 = major; 5 = minor)
+        fifths: number; // how many sharps [+] or flats [-]
+        shifts: number[]; // the accidental [+1, 0 or -1] for each key-letter from C to B
+        valid: boolean; // false if the key wasn't recognised (e.g. "none")
+
+        constructor(value: string) {
+            this.shifts = [0, 0, 0, 0, 0, 0, 0];
+            this.fifths = 0;
+            this.mode = 0;
+            let letter = "CDEFGAB".indexOf(value.charAt(0).toUpperCase());
+            this.valid = (value.length > 0) && (letter > -1);
+            if (!this.valid) {
+                this.name = "";
+                this.root = "";
+                this.tonic = 0;
+                return;
+            }
+            this.root = "CDEFGAB".charAt(letter);
+            this.tonic = NATURAL_SEMIS[letter];
+            // count the tonic's position around the circle of fifths (sharps positive; flats negative)
+            let fifths = [0, 2, 4, -1, 1, 3, 5][letter];
+            let rest = value.substr(1);
+            if (rest.charAt(0) == "#") {
+                fifths += 7;
+                this.tonic++;
+                this.root += "#";
+                rest = rest.substr(1);
+            } else if (rest.charAt(0) == "b") {
+                fifths -= 7;
+                this.tonic--;
+                this.root += "b";
+                rest = rest.substr(1);
+            }
+            this.tonic = (this.tonic + 12) % 12;
+            // adjust for the mode (if any)
+            let mode = rest.trim().toLowerCase().substr(0, 3);
+            if (mode == "dor") this.mode = 1;
+            else if (mode == "phr") this.mode = 2;
+            else if (mode == "lyd") this.mode = 3;
+            else if (mode == "mix") this.mode = 4;
+            else if (mode == "loc") this.mode = 6;
+            else if ((mode.charAt(0) == "m") && (mode != "maj")) this.mode = 5; // minor (or aeolian)
+            else if (mode == "aeo") this.mode = 5;
+            this.name = this.root + MODE_NAMES[this.mode];
+            this.fifths = clamp(-7, fifths + MODE_FIFTHS[this.mode], 7);
+            let sharpOrder = [3, 0, 4, 1, 5, 2, 6]; // F C G D A E B
+            for (let i = 0; i < Math.abs(this.fifths); i++) {
+                if (this.fifths > 0) {
+                    this.shifts[sharpOrder[i]] = 1;
+                } else {
+                    this.shifts[sharpOrder[6 - i]] = -1;
+                }
+            }
+        }
+
+        // the semitone-offsets above the tonic of each degree of this key's scale
+        steps(): number[] {
+            let steps: number[] = [];
+            for (let i = 0; i < 7; i++) {
+                steps.push((NATURAL_SEMIS[(this.mode + i) % 7] - NATURAL_SEMIS[this.mode] + 12) % 12);
+            }
+            return steps;
+        }
+    }
+
+    // the KeySignature for an EKO key-signature marking "K:key", or null if it isn't one
+    function keyMarking(spec: string): KeySignature {
+        if ((spec.length > 2) && (spec.substr(0, 2).toUpperCase() == "K:")) {
+            let key = new KeySignature(spec.substr(2));
+            if (key.valid) return key;
+        }
+        return null;
+    }
+
     class Tune {
         title: string; // unique identifier
         nNotes: number; // number of notes (steps) in Tune
         nTicks: number; // overall duration of Tune in ticks
         notes: TuneStep[]; // array of notes
+        dynamic: number; // current dynamic level [0..255], persisting until changed
+        rampFrom: number; // index of first note in an open crescendo or diminuendo (or -1 if none)
+        bpm: number; // the Tune's own tempo (or 0 to adopt the current default)
+        tempo: number; // current tempo from EKO tempo markings, persisting until changed (or 0 if none yet)
+        tempoFrom: number; // index of first note in an open tempo ramp (or -1 if none)
+        key: KeySignature; // current key signature from EKO key markings, persisting until changed (or null if none)
+        // diagnostics from the most recent compose or extend:
+        nFaults: number; // how many EKO specs were malformed
+        fault: EKOFault; // what was wrong with the first one
+        faultToken: number; // which space-separated item it was (counting from 0)
+        faultOffset: number; // character-offset of the fault within the score
 
         // deconstruct the source-string of EKO note-specifiers
         constructor(title: string, source: string) {
             this.title = title;
             this.notes = [];
+            this.nNotes = 0;
             this.nTicks = 0;
-            let specs = source.trim().split(" ");
-            this.nNotes = specs.length;
-            for (let i = 0; i < this.nNotes; i++) {
-                let nextNote = new TuneStep(specs[i]);
-                this.nTicks += nextNote.ticks;
-                this.notes.push(nextNote);
-            }
+            this.dynamic = DYNAMIC_FF;
+            this.rampFrom = -1;
+            this.bpm = 0;
+            this.tempo = 0;
+            this.tempoFrom = -1;
+            this.key = null;
+            // (report fault offsets relative to the untrimmed source)
+            let lead = 0;
+            while ((lead < source.length) && (source.charAt(lead) == " ")) lead++;
+            this.extend(source.trim(), false, lead);
         }
         // method to add some more notes...
-        extend(source: string) {
+        // (if strict, a score containing any malformed notes is rejected, returning false)
+        extend(source: string, strict: boolean = false, offset: number = 0): boolean {
             let specs = source.split(" ");
             let count = specs.length;
+            // first pass: parse the notes, looking for faults
+            let steps: TuneStep[] = [];
+            this.nFaults = 0;
+            this.fault = EKOFault.None;
+            this.faultToken = -1;
+            this.faultOffset = -1;
             for (let i = 0; i < count; i++) {
-                let nextNote = new TuneStep(specs[i]);
-                this.nNotes++;
-                this.nTicks += nextNote.ticks;
-                this.notes.push(nextNote);
+                let nextNote: TuneStep = null; // (stays null for a dynamics, tempo or key marking)
+                if ((markingLevel(specs[i]) == NOT_A_MARKING) && (tempoMarking(specs[i]) == NOT_A_MARKING)
+                    && (keyMarking(specs[i]) == null)) {
+                    nextNote = new TuneStep(specs[i]);
+                    if (nextNote.fault != EKOFault.None) {
+                        if (this.nFaults == 0) {
+                            this.fault = nextNote.fault;
+                            this.faultToken = i;
+                            this.faultOffset = offset + nextNote.faultAt;
+                        }
+                        this.nFaults++;
+                    }
+                }
+                steps.push(nextNote);
+                offset += specs[i].length + 1;
+            }
+            if (strict && (this.nFaults > 0)) {
+                return false;
+            }
+            // second pass: add the notes, applying any dynamics, tempo or key markings
+            for (let i = 0; i < count; i++) {
+                let nextNote = steps[i];
+                if (nextNote == null) {
+                    let level = markingLevel(specs[i]);
+                    if (level != NOT_A_MARKING) {
+                        this.applyMarking(level);
+                    } else if (tempoMarking(specs[i]) != NOT_A_MARKING) {
+                        this.applyTempo(tempoMarking(specs[i]));
+                    } else {
+                        this.key = keyMarking(specs[i]);
+                    }
+                } else {
+                    nextNote.applyKey(this.key);
+                    nextNote.applyDynamic(this.dynamic);
+                    nextNote.bpm = this.tempo;
+                    this.nNotes++;
+                    this.nTicks += nextNote.ticks;
+                    this.notes.push(nextNote);
+                }
             }
+            return true;
         }
-    }
 
-    // just a wrapper for the performance...
-    class Play {
-        parts: SoundExpression[]; // the sound-strings for each of its parts
-        constructor() {
-            this.parts = [];
+        // act on a dynamics marking: [pp|p|mp|mf|f|ff] sets a new level; 
+        // "<" (crescendo) or ">" (diminuendo) opens a ramp that the next level-marking closes.
+        protected applyMarking(level: number) {
+            if (level == RAMP_MARKING) {
+                this.rampFrom = this.nNotes; // ramp starts with the next note
+            } else {
+                if (this.rampFrom > -1) {
+                    this.rampTo(level);
+                }
+                this.dynamic = level;
+            }
+        }
+
+        // spread the notes since rampFrom evenly between the previous level and this new one
+        protected rampTo(level: number) {
+            let span = this.nNotes - this.rampFrom;
+            for (let i = 0; i < span; i++) {
+                let step = this.notes[this.rampFrom + i];
+                step.applyDynamic(this.dynamic + ((level - this.dynamic) * (i + 1)) / (span + 1));
+            }
+            this.rampFrom = -1;
+        }
+
+        // act on a tempo marking: "=nnn" sets a new tempo; 
+        // "~" opens a ramp that the next "=nnn" marking closes.
+        protected applyTempo(bpm: number) {
+            if (bpm == RAMP_MARKING) {
+                this.tempoFrom = this.nNotes; // ramp starts with the next note
+            } else {
+                if (this.tempoFrom > -1) {
+                    this.rampTempoTo(bpm);
+                }
+                this.tempo = bpm;
+            }
+        }
+
+        // spread the tempi of notes since tempoFrom evenly between the previous tempo and this new one
+        // (a ramp before any tempo marking starts from the Tune's own tempo, or else the initial default)
+        protected rampTempoTo(bpm: number) {
+            let start = this.tempo;
+            if (start == 0) {
+                start = (this.bpm > 0) ? this.bpm : 15000 / DEFAULT_TICKMS;
+            }
+            let span = this.nNotes - this.tempoFrom;
+            for (let i = 0; i < span; i++) {
+                this.notes[this.tempoFrom + i].bpm = start + ((bpm - start) * (i + 1)) / (span + 1);
+            }
+            this.tempoFrom = -1;
         }
     }
 
+    // EKO key-names for each semitone in the octave (using the commonest spellings)...
+    const EKO_KEYS = ["C", "C#", "D", "Eb", "E", "F", "F#", "G", "G#", "A", "Bb", "B"];
+    // ...or spelt to suit sharp keys...
+    const EKO_SHARP_KEYS = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+    // ...or flat keys
+    const EKO_FLAT_KEYS = ["C", "Db", "D", "Eb", "E", "F", "Gb", "G", "Ab", "A", "Bb", "B"];
+
+    // build the EKO-notation specifier for a note (or a Rest, if midi is 0)
+    // (black keys are spelt with sharps if fifths is positive, or flats if negative;
+    // given a key signature, its accidentals are left unmarked, and any they'd wrongly apply are cancelled)
+    function ekoNote(ticks: number, midi: number, fifths: number = 0, key: KeySignature = null): string {
+        let extent = convertToText(clamp(1, Math.round(ticks), 64));
+        if (midi <= 0) {
+            return extent + "R";
+        }
+        midi = clamp(12, Math.round(midi), 131); // (EKO octaves run from C0 to B10)
+        if (key != null) fifths = key.fifths;
+        let keys = EKO_KEYS;
+        if (fifths > 0) keys = EKO_SHARP_KEYS;
+        if (fifths < 0) keys = EKO_FLAT_KEYS;
+        let name = keys[midi % 12];
+        if (key != null) {
+            let shift = 0;
+            if (name.length > 1) shift = (name.charAt(1) == "#") ? 1 : -1;
+            if (shift == key.shifts["CDEFGAB".indexOf(name.charAt(0))]) {
+                name = name.charAt(0); // (the key signature sees to it)
+            } else if (shift == 0) {
+                name += "n";
+            }
+        }
+        return extent + name + convertToText(Math.idiv(midi, 12) - 1);
+    }
 
-    // activity events (for other components to synchronise with)
-    const FLEXFX_ACTIVITY_ID = 9050 // TODO: Check (somehow?) that this is a permissable value!
-    enum PLAYER {
-        STARTING = 1,
-        FINISHED = 2,
-        ALLPLAYED = 3,
+    // guess the key-signature of some notes (as sharps [+] or flats [-]), 
+    // by finding the major scale that they best fit (and preferring fewer accidentals)
+    function guessFifths(notes: TuneStep[]): number {
+        let best = 0;
+        let bestFit = -1;
+        for (let i = 0; i < 13; i++) {
+            let fifths = (i % 2 == 0) ? (i / 2) : -((i + 1) / 2); // (0, -1, 1, -2, 2...)
+            let tonic = (fifths * 7 + 84) % 12;
+            let fit = 0;
+            for (let j = 0; j < notes.length; j++) {
+                if (notes[j].volume > 0) {
+                    let degree = (notes[j].midi - tonic + 120) % 12;
+                    if (NATURAL_SEMIS.indexOf(degree) > -1) fit += notes[j].ticks;
+                }
+            }
+            if (fit > bestFit) {
+                best = fifths;
+                bestFit = fit;
+            }
+        }
+        return best;
     }
 
-    /* 
-        A FlexFX is a potentially composite sound-effect.
-        It can specify several component soundExpressions called "parts" that get played consecutively.
-        Each part has a [frequency,volume] start-point and end-point.
-        Apart from the first part, the start-point gets inherited from the previous end-point,
-        so an n-part FlexFX moves through (n+1) [frequency,volume] points.
-        It is built, one part at a time, using defineFlexFX() followed by zero or more extendFlexFX() calls.
-    */
+    // find the dynamics marking nearest to a note-volume
+    function nearestMarking(volume: number): string {
+        let markings = ["pp", "p", "mp", "mf", "f", "ff"];
+        let levels = [DYNAMIC_PP, DYNAMIC_P, DYNAMIC_MP, DYNAMIC_MF, DYNAMIC_F, DYNAMIC_FF];
+        let nearest = 0;
+        for (let i = 1; i < levels.length; i++) {
+            if (Math.abs(levels[i] - volume) < Math.abs(levels[nearest] - volume)) nearest = i;
+        }
+        return markings[nearest];
+    }
 
-    class FlexFX {
-        // properties
-        id: string; // identifier
-        nParts: number;
-        prototype: Play; // contains the [nParts] SoundExpressions forming this flexFX
-        fullDuration: number; // overall cumulative duration of prototype
-        peakVolume: number; // remembers the highest volume [0-1020] in the prototype
-        pitchAverage: number; // approximate average pitch (in Hz)
-        pitchMidi: number; // midi note-number of average pitch (counted in semitones)
-        pitchProfile: number[];  // contains [nParts + 1] scalable frequencies
-        volumeProfile: number[];  // contains [nParts + 1] scalable volumes [0-1020]
-        durationProfile: number[]; // contains [nParts] scalable durations
+    // the key a Tune is in: from its key signature, or else guessed (as a major key) from its notes
+    function keyOf(tune: Tune): KeySignature {
+        if (tune.key != null) return tune.key;
+        let majors = ["Cb", "Gb", "Db", "Ab", "Eb", "Bb", "F", "C", "G", "D", "A", "E", "B", "F#", "C#"];
+        return new KeySignature(majors[guessFifths(tune.notes) + 7]);
+    }
 
+    // MIDI note-numbers of a Tune's notes, moved from one key into another by scale-degree rather than
+    // by semitones (so changing mode, e.g. from major to minor, flattens the 3rd, 6th and 7th)
+    // (notes outside the first key keep their offset from the degree below; Rests and error-tones stay put)
+    function movedMidis(tune: Tune, from: KeySignature, to: KeySignature): number[] {
+        let fromSteps = from.steps();
+        let toSteps = to.steps();
+        let shift = ((to.tonic - from.tonic + 18) % 12) - 6; // (moving to the nearest tonic, up or down)
+        let midis: number[] = [];
+        for (let i = 0; i < tune.notes.length; i++) {
+            let note = tune.notes[i];
+            let midi = note.midi;
+            if ((note.volume > 0) && (note.fault == EKOFault.None)) {
+                let semi = (midi - from.tonic + 120) % 12;
+                let degree = 6;
+                while (fromSteps[degree] > semi) degree--;
+                midi += shift + toSteps[degree] - fromSteps[degree];
+            }
+            midis.push(midi);
+        }
+        return midis;
+    }
 
-        constructor(id: string) {
-            this.id = id;
-            this.initialise();
+    // build the EKO score of a Tune, but with the given MIDI note-numbers, and spelt to suit the given key
+    // (which is marked at the start, unless it's null)
+    function tuneScore(tune: Tune, midis: number[], key: KeySignature): string {
+        let fifths = guessFifths(tune.notes);
+        let specs: string[] = [];
+        if (key != null) {
+            specs.push("K:" + key.name);
+        }
+        let marking = "ff"; // (the default level, so needs no marking)
+        let tempo = 0; // (no tempo marking yet)
+        for (let i = 0; i < tune.notes.length; i++) {
+            let note = tune.notes[i];
+            // add a tempo marking whenever the tempo changes (so every step of a ramp gets one)
+            if ((note.bpm > 0) && (Math.round(note.bpm) != tempo)) {
+                tempo = Math.round(note.bpm);
+                specs.push("=" + convertToText(tempo));
+            }
+            if (note.volume > 0) {
+                // add a dynamics marking whenever the loudness changes
+                let nearest = nearestMarking(note.volume);
+                if (nearest != marking) {
+                    specs.push(nearest);
+                    marking = nearest;
+                }
+                let spec = ekoNote(note.ticks, midis[i], fifths, key);
+                if (note.cents > 0) {
+                    spec += "+" + convertToText(note.cents);
+                } else if (note.cents < 0) {
+                    spec += convertToText(note.cents);
+                }
+                if (note.glides) {
+                    spec += "/";
+                } else if (note.slurred) {
+                    spec += "_";
+                }
+                specs.push(spec);
+            } else {
+                specs.push(ekoNote(note.ticks, 0));
+            }
         }
+        return specs.join(" ");
+    }
 
-        initialise() {
-            this.nParts = 0;
-            this.prototype = new Play;
-            this.fullDuration = 0;
-            this.peakVolume = 0;
-            this.pitchAverage = 0;
-            this.pitchMidi = 0;
-            this.pitchProfile = [];
-            this.volumeProfile = [];
-            this.durationProfile = [];
+    // compose a new Tune copying an old one, but with new MIDI note-numbers in a new key
+    // (the copy also keeps the exact volumes and tempi, which its score can only approximate)
+    function copyTune(tune: Tune, midis: number[], key: KeySignature, newTitle: string) {
+        composeTune(newTitle, tuneScore(tune, midis, key));
+        let copy: Tune = tuneList.find(i => i.title === newTitle);
+        if ((copy != null) && (copy.notes.length == tune.notes.length)) {
+            for (let i = 0; i < tune.notes.length; i++) {
+                copy.notes[i].volume = tune.notes[i].volume;
+                copy.notes[i].accented = tune.notes[i].accented;
+                copy.notes[i].bpm = tune.notes[i].bpm;
+            }
+            copy.bpm = tune.bpm;
         }
+    }
 
-        // internal tools...
+    // build a score in EKO-notation from lists of note-extents and MIDI note-numbers
+    // (rounding the cumulative time, so fractional extents like triplets still add up)
+    function ekoScore(ticks: number[], midis: number[]): string {
+        let specs: string[] = [];
+        let time = 0;
+        let done = 0;
+        for (let i = 0; i < midis.length; i++) {
+            time += ticks[i];
+            let extent = Math.max(Math.round(time) - done, 1);
+            done += extent;
+            specs.push(ekoNote(extent, midis[i]));
+        }
+        return specs.join(" ");
+    }
 
-        protected goodPitch(pitch: number): number {
-            return Math.min(Math.max(pitch, 1), 9999);
+    // chord-symbol qualities (following the root) and the semitone-offsets of their notes
+    const CHORD_NAMES = ["", "maj", "m", "min", "7", "maj7", "M7", "m7", "min7", "dim", "dim7", "m7b5",
+        "aug", "+", "sus2", "sus4", "sus", "6", "m6", "9", "add9", "5"];
+    const CHORD_SHAPES = [[0, 4, 7], [0, 4, 7], [0, 3, 7], [0, 3, 7], [0, 4, 7, 10], [0, 4, 7, 11], [0, 4, 7, 11], [0, 3, 7, 10], [0, 3, 7, 10], [0, 3, 6], [0, 3, 6, 9], [0, 3, 6, 10],
+        [0, 4, 8], [0, 4, 8], [0, 2, 7], [0, 5, 7], [0, 5, 7], [0, 4, 7, 9], [0, 3, 7, 9], [0, 4, 7, 10, 14], [0, 4, 7, 14], [0, 7]];
+
+    // MIDI note-numbers of a chord (like "C", "Am", "G7", "Fmaj7" or "Bb/D"), with its root in the given octave
+    // (returns an empty list if the chord-symbol isn't recognised)
+    function chordNotes(symbol: string, octave: number): number[] {
+        let notes: number[] = [];
+        let letter = "CDEFGAB".indexOf(symbol.charAt(0));
+        if ((symbol.length == 0) || (letter < 0)) return notes;
+        let root = 12 * (octave + 1) + NATURAL_SEMIS[letter];
+        let here = 1;
+        switch (symbol.charAt(here)) {
+            case "#": root++;
+                here++;
+                break;
+            case "b": root--;
+                here++;
+                break;
         }
-        protected goodVolume(volume: number): number {
-            return Math.min(Math.max(volume, 0), 1023);
+        let quality = symbol.substr(here);
+        let slash = quality.indexOf("/");
+        if (slash > -1) {
+            quality = quality.substr(0, slash); // (ignoring any different bass-note)
         }
-        protected goodDuration(duration: number): number {
-            return Math.min(Math.max(duration, 10), 9999);
+        let shape = CHORD_NAMES.indexOf(quality);
+        if (shape > -1) {
+            for (let i = 0; i < CHORD_SHAPES[shape].length; i++) {
+                notes.push(root + CHORD_SHAPES[shape][i]);
+            }
         }
+        return notes;
+    }
 
-        // methods...
-
-        // begin setting up the very first part of a new FlexFX
-        startWith(startPitch: number, startVolume: number) {
-            this.pitchProfile.push(this.goodPitch(startPitch)); // pitchProfile[0]
-            let v = this.goodVolume(startVolume * 4); // internally, volumes are [0-1020]
-            this.volumeProfile.push(v);                         // volumeProfile[0]
-            this.peakVolume = v; // ...until proven otherwise
-            this.pitchAverage = startPitch;
+    // choose the order in which to play the notes of a chord:
+    // "up", "down", "updown", "random", or a comma-separated list of indexes into the chord's notes
+    // (where 0 is the root, and indexes beyond the chord continue into the octaves above, or below if negative)
+    function arpeggio(chord: number[], pattern: string, octaves: number): number[] {
+        let span: number[] = []; // (the chord's notes, repeated up through the octaves)
+        for (let octave = 0; octave < octaves; octave++) {
+            for (let i = 0; i < chord.length; i++) {
+                span.push(chord[i] + 12 * octave);
+            }
         }
+        let notes: number[] = [];
+        switch (pattern.trim().toLowerCase()) {
+            case "up": notes = span;
+                break;
+            case "down":
+                for (let i = span.length - 1; i >= 0; i--) notes.push(span[i]);
+                break;
+            case "updown": // (not repeating the top or bottom notes)
+                notes = span.slice(0);
+                for (let i = span.length - 2; i > 0; i--) notes.push(span[i]);
+                break;
+            case "random":
+                for (let i = 0; i < span.length; i++) notes.push(span[Math.randomRange(0, span.length - 1)]);
+                break;
+            default:
+                let items = pattern.split(",");
+                for (let i = 0; i < items.length; i++) {
+                    let index = parseInt(items[i].trim());
+                    if (!isNaN(index)) {
+                        let octave = Math.floor(index / chord.length);
+                        notes.push(chord[index - octave * chord.length] + 12 * octave);
+                    }
+                }
+                if (notes.length == 0) {
+                    notes = span; // (not a pattern we understand, so just go up)
+                }
+        }
+        return notes;
+    }
 
-        // add the details of the next part (ensuring all parameters are sensible)
-        addPart(wave: Wave, attack: Attack, effect: Effect, endPitch: number, endVolume: number, duration: number) {
-
-            this.pitchProfile.push(this.goodPitch(endPitch));
+    // semitone-offsets of the notes in each Scale (in enum order)
+    const SCALE_STEPS = [[0, 2, 4, 5, 7, 9, 11], [0, 2, 3, 5, 7, 8, 10], [0, 2, 3, 5, 7, 8, 11],
+        [0, 2, 4, 7, 9], [0, 3, 5, 7, 10], [0, 3, 5, 6, 7, 10],
+        [0, 2, 3, 5, 7, 9, 10], [0, 1, 3, 5, 7, 8, 10], [0, 2, 4, 6, 7, 9, 11], [0, 2, 4, 5, 7, 9, 10], [0, 1, 3, 5, 6, 8, 10]];
+    // note-extents to choose from, for each level of rhythmic busyness
+    const BUSYNESS_EXTENTS = [[4, 8, 8, 12], [4, 4, 2, 8], [2, 2, 4, 1], [1, 1, 2]];
 
-            let bigEndVol = this.goodVolume(endVolume * 4);
-            this.volumeProfile.push(bigEndVol);
-            this.peakVolume = Math.max(this.peakVolume, bigEndVol);
+    /*
+        A Dice gives a pseudo-random sequence (using 32-bit xorshift) that always 
+        turns out the same for the same seed, wherever it runs.
+    */
+    class Dice {
+        protected state: number;
 
-            let d = this.goodDuration(duration);
-            this.durationProfile.push(d);
+        constructor(seed: number) {
+            this.state = (Math.round(seed) ^ 0x5EED) | 0;
+            if (this.state == 0) this.state = 1; // (the sequence would get stuck at zero)
+        }
 
-            // turn our enums into simple numbers
-            let waveNumber: number = wave;
-            let effectNumber: number = effect;
-            let attackNumber: number = attack;
+        // roll an n-sided die, returning [0..n-1]
+        roll(n: number): number {
+            let x = this.state;
+            x ^= x << 13;
+            x ^= x >>> 17;
+            x ^= x << 5;
+            this.state = x;
+            return (x >>> 0) % n;
+        }
 
-            // start where the [pitch,volume] last ended:
-            // (this.nParts hasn't yet been incremented, so indexes the previous part)
-            let startPitch = this.pitchProfile[this.nParts];
-            let startVolume = this.volumeProfile[this.nParts]
+        // return a random amount in the range [-1..1]
+        spread(): number {
+            return (this.roll(2001) / 1000) - 1;
+        }
+    }
 
-            if (wave == Wave.Silence) {
-                // ensure this part plays silently, while preserving the end-point of the previous part 
-                // and the start-point of any following part
-                startVolume = 0;
-                bigEndVol = 0;
-                waveNumber = WaveShape.Sine; // arbitrarily, as silent!
-            } else {
-                // compute average pitch of this part
-                let blend = 0;
-                switch (attack) {
-                    case Attack.Fast: blend = 0.1; // nearly all End pitch
-                        break;
-                    case Attack.Medium: blend = 0.2; // mostly End pitch
-                        break;
-                    case Attack.Even: blend = 0.5; // fifty-fifty
-                        break;
-                    //  case Attack.Delayed: blend = 0.8; // mostly Start pitch
-                    //      break;   *** option temporarily removed...
+    /*
+        A MelodyMaker makes up a melody, bar by bar (in 4/4 time), wandering up and down a Scale.
+        All its choices come from a Dice, so the same seed always makes the same melody.
+    */
+    class MelodyMaker {
+        ticks: number[]; // extent of each note
+        midis: number[]; // MIDI note-number of each note
+        protected dice: Dice;
+
+        constructor(steps: number[], root: number, bars: number, busyness: number,
+            stepwise: number, endOnTonic: boolean, seed: number) {
+            this.ticks = [];
+            this.midis = [];
+            this.dice = new Dice(seed);
+            let extents = BUSYNESS_EXTENTS[busyness - 1];
+            let size = steps.length;
+            let lowest = -Math.idiv(size, 2); // (keep within about two octaves)
+            let highest = size + Math.idiv(size, 2);
+            let degree = [0, 2, 4][this.dice.roll(3)]; // start on a note of the key-chord
+            for (let bar = 0; bar < bars; bar++) {
+                let left = SEMIBREVE_TICKS;
+                let lastBar = (bar == bars - 1);
+                while (left > 0) {
+                    let extent = Math.min(extents[this.dice.roll(extents.length)], left);
+                    if (lastBar && endOnTonic && (left <= 2 * CROTCHET_TICKS)) {
+                        // finish with a long key-note
+                        extent = left;
+                        degree = Math.round(degree / size) * size;
+                    }
+                    let octave = Math.floor(degree / size);
+                    this.midis.push(root + 12 * octave + steps[degree - octave * size]);
+                    this.ticks.push(extent);
+                    left -= extent;
+                    // now choose where to go next: either a step, or a leap (of up to 4 degrees)
+                    let move = 1;
+                    if (this.dice.roll(100) >= stepwise) {
+                        move = 2 + this.dice.roll(3);
+                    }
+                    if (this.dice.roll(2) == 0) move = -move;
+                    degree += move;
+                    // (bouncing back off the limits of our range)
+                    if (degree < lowest) degree = 2 * lowest - degree;
+                    if (degree > highest) degree = 2 * highest - degree;
                 }
-                let pitch = (blend * startPitch) + ((1 - blend) * endPitch);
-                // update overall average pitch, weighted by duration of each part
-                let kilocycles = (this.pitchAverage * this.fullDuration + pitch * d);
-                this.pitchAverage = kilocycles / (this.fullDuration + d);
-                // update its MIDI equivalent (including microtonal fractions)
-                this.pitchMidi = hertzToMidi(this.pitchAverage);
             }
-            this.fullDuration += d; // always add duration, even if silent
+        }
+    }
 
-            // create the SoundExpression
-            let soundExpr = music.createSoundExpression(waveNumber, startPitch, endPitch,
-                startVolume, bigEndVol, duration, effectNumber, attackNumber);
-
-            /* FUTURE ENHANCEMENT 
-            The underlying implementation in "codal-microbit-v2/source/SoundSynthesizerEffects.cpp"
-            of the functions: 
-                  SoundSynthesizerEffects::exponentialRisingInterpolation()
-            and   SoundSynthesizerEffects::exponentialFallingInterpolation()
-            currently contain maths bugs, so Attack.Delayed is being temporarily removed...
-
-            // add-in appropriate "shape" & "steps" parameters for Delayed effects
-            if (attack == Attack.Delayed) {
-                let tempSound = new soundExpression.Sound;
-                tempSound.src = soundExpr.getNotes();
-                if (endPitch > startPitch) {
-                    tempSound.shape = soundExpression.InterpolationEffect.ExponentialRising; // (faked with Sin)
-                    tempSound.steps = 90; // 1-degree steps
+    /* 
+        An ABCReader converts the common subset of ABC-notation into a list of notes.
+        Header fields (L:, M:, Q: and K:) may appear on their own lines anywhere.
+        The tune-body understands note-lengths, octave marks, accidentals, key-signatures, 
+        rests, bar-lines, ties, broken rhythms, triplets, simple repeats and first/second endings.
+        Chords are reduced to their first note; decorations, guitar-chords and grace-notes are skipped.
+    */
+    class ABCReader {
+        ticks: number[]; // extent of each note (may be fractional until converted to EKO)
+        midis: number[]; // MIDI note-number of each note (or 0 for a Rest)
+        bpm: number; // tempo from any Q: field (or 0 if none)
+        title: string; // title from any T: field
+        protected unitTicks: number; // length of the L: unit note, in ticks
+        protected barTicks: number; // length of a bar, from the M: field
+        protected keyShift: number[]; // key-signature accidental for each letter [C,D,E,F,G,A,B]
+        protected barLetters: number[]; // (letter + 7*octave) of each explicit accidental in this bar...
+        protected barShifts: number[]; // ...and the accidental it applied
+        protected text: string; // current body line
+        protected here: number; // parsing position within text
+        protected tied: boolean; // next note continues the previous one
+        protected nextFactor: number; // length adjustment for the next note (from broken rhythms)
+        protected tupletLeft: number; // notes remaining in the current tuplet
+        protected tupletFactor: number; // length adjustment for notes in the current tuplet
+        protected repeatFrom: number; // index of the note where a repeated section starts
+        protected firstEnding: number; // index of the note where a first-ending starts (or -1)
+
+        constructor(abc: string) {
+            this.ticks = [];
+            this.midis = [];
+            this.bpm = 0;
+            this.title = "";
+            this.unitTicks = -1; // (until known)
+            this.barTicks = SEMIBREVE_TICKS; // (4/4 time)
+            this.keyShift = [0, 0, 0, 0, 0, 0, 0];
+            this.barLetters = [];
+            this.barShifts = [];
+            this.tied = false;
+            this.nextFactor = 1;
+            this.tupletLeft = 0;
+            this.tupletFactor = 1;
+            this.repeatFrom = 0;
+            this.firstEnding = -1;
+            let lines = abc.split("\n");
+            for (let i = 0; i < lines.length; i++) {
+                let line = lines[i].trim();
+                let asc = line.toUpperCase().charCodeAt(0);
+                if ((line.length > 1) && (line.charAt(1) == ":") && (asc > 64) && (asc < 91)) {
+                    this.parseField(line.charAt(0), line.substr(2).trim());
                 } else {
-                    tempSound.shape = soundExpression.InterpolationEffect.ExponentialFalling; // (faked with Cos)
-                    tempSound.steps = 90; // 1-degree steps
+                    this.parseBody(line);
                 }
-                soundExpr = new SoundExpression(tempSound.src);
             }
-            */
+        }
 
-            // add new sound into the prototype
-            this.prototype.parts.push(soundExpr);
-            this.nParts++;
+        // act on a header field (others, like X: or C:, are ignored)
+        protected parseField(field: string, value: string) {
+            switch (field) {
+                case "T": if (this.title == "") this.title = value;
+                    break;
+                case "L": this.unitTicks = SEMIBREVE_TICKS * this.parseFraction(value, 0.125);
+                    break;
+                case "M":
+                    let meter = 1; // (common-time "C" and cut-time "C|" both fill a semibreve)
+                    if (value.charAt(0) != "C") {
+                        meter = this.parseFraction(value, 1);
+                    }
+                    this.barTicks = SEMIBREVE_TICKS * meter;
+                    if (this.unitTicks < 0) { // the unit-note depends on the meter
+                        this.unitTicks = (meter < 0.75) ? 1 : QUAVER_TICKS;
+                    }
+                    break;
+                case "Q":
+                    let equals = value.indexOf("=");
+                    let beat = 0.25; // (a crotchet)
+                    if (equals > -1) {
+                        beat = this.parseFraction(value.substr(0, equals).trim(), 0.25);
+                        value = value.substr(equals + 1);
+                    } else if (this.unitTicks > 0) {
+                        beat = this.unitTicks / SEMIBREVE_TICKS; // (old-style: units per minute)
+                    }
+                    let rate = parseInt(value.trim());
+                    if (rate > 0) {
+                        this.bpm = clamp(30, rate * beat * 4, 480);
+                    }
+                    break;
+                case "K": this.parseKey(value);
+                    break;
+            }
         }
 
-        // Create a specifically tuned performance of this FlexFX
-        makeTunedPlay(pitch: number, volumeLimit: number, newDuration: number): Play {
-            let scaledVolumeLimit = volumeLimit * 4;
-            let play = new Play;
-            let sound = new soundExpression.Sound;
-            let pitchRatio = 1.0;
-            let volumeRatio = 1.0;
-            let durationRatio = 1.0;
-            // code defensively!
-            if (pitch * this.pitchAverage != 0) pitchRatio = pitch / this.pitchAverage;
-            if (scaledVolumeLimit * this.peakVolume != 0) volumeRatio = scaledVolumeLimit / this.peakVolume;
-            if (newDuration * this.fullDuration != 0) durationRatio = newDuration / this.fullDuration;
-            // apply ratios (where changed from 1.0) to relevant fields of each part in turn
-            for (let i = 0; i < this.nParts; i++) {
-                sound.src = this.prototype.parts[i].getNotes(); // current string
-                sound.frequency = this.goodPitch(this.pitchProfile[i] * pitchRatio);
-                sound.endFrequency = this.goodPitch(this.pitchProfile[i + 1] * pitchRatio);
+        // read a fraction like "3/8" (or a whole number) returning its value
+        protected parseFraction(value: string, otherwise: number): number {
+            let slash = value.indexOf("/");
+            if (slash < 0) {
+                let whole = parseInt(value);
+                return (whole > 0) ? whole : otherwise;
+            }
+            let top = parseInt(value.substr(0, slash));
+            let bottom = parseInt(value.substr(slash + 1));
+            if ((top > 0) && (bottom > 0)) {
+                return top / bottom;
+            }
+            return otherwise;
+        }
 
-                if (volumeRatio != 1.0) {
-                    sound.volume = this.goodVolume(this.volumeProfile[i] * volumeRatio);
-                    sound.endVolume = this.goodVolume(this.volumeProfile[i + 1] * volumeRatio);
-                }
-                if (durationRatio != 1.0) {
-                    sound.duration = this.goodDuration(this.durationProfile[i] * durationRatio);
-                }
-                play.parts[i] = new SoundExpression(sound.src); // modified string
+        // set up keyShift[] from a key like "G", "Bb", "F#m" or "Ddor"
+        protected parseKey(value: string) {
+            let key = new KeySignature(value);
+            if (key.valid) { // (else e.g. "none")
+                this.keyShift = key.shifts;
             }
-            return (play);
         }
 
-    }
+        // work through a line of the tune-body
+        protected parseBody(line: string) {
+            this.text = line;
+            this.here = 0;
+            while (this.here < this.text.length) {
+                let c = this.text.charAt(this.here);
+                if (c == "%") break; // (rest of line is a comment)
+                if ("^_=ABCDEFGabcdefgzxZ".indexOf(c) > -1) {
+                    this.parseNote();
+                } else {
+                    this.here++;
+                    switch (c) {
+                        case "\"": this.skipTo("\"");
+                            break;
+                        case "!": this.skipTo("!");
+                            break;
+                        case "+": this.skipTo("+");
+                            break;
+                        case "{": this.skipTo("}");
+                            break;
+                        case "[": this.parseBracket();
+                            break;
+                        case "|": this.barLine();
+                            if (this.peek() == ":") {
+                                this.here++;
+                                this.repeatFrom = this.midis.length;
+                            } else if ((this.peek() == "1") && (this.firstEnding < 0)) {
+                                this.firstEnding = this.midis.length;
+                            }
+                            break;
+                        case ":": this.barLine();
+                            if (this.peek() == "|") this.here++;
+                            this.repeat();
+                            while (this.peek() == "|") this.here++;
+                            if (this.peek() == ":") { // (a "::" both ends and starts a repeat)
+                                this.here++;
+                            }
+                            break;
+                        case "(": this.parseTuplet();
+                            break;
+                        case "-": this.tied = true;
+                            break;
+                        case ">": this.brokenRhythm(1.5);
+                            break;
+                        case "<": this.brokenRhythm(0.5);
+                            break;
+                        // (anything else, like spaces or slurs, is ignored)
+                    }
+                }
+            }
+        }
+
+        protected peek(): string {
+            return this.text.charAt(this.here);
+        }
+
+        protected skipTo(end: string) {
+            let found = this.text.indexOf(end, this.here);
+            this.here = (found < 0) ? this.text.length : found + 1;
+        }
+
+        // handle a "[" which might start a chord, an inline field or an ending
+        protected parseBracket() {
+            let c = this.peek();
+            if ((c == "1") && (this.firstEnding < 0)) {
+                this.firstEnding = this.midis.length;
+            } else if ("^_=ABCDEFGabcdefgzx".indexOf(c) > -1) {
+                this.parseNote(); // (just the first note of a chord)
+                this.skipTo("]");
+            } else if (this.text.charAt(this.here + 1) == ":") {
+                let end = this.text.indexOf("]", this.here);
+                if (end < 0) end = this.text.length;
+                this.parseField(c, this.text.substr(this.here + 2, end - this.here - 2).trim());
+                this.here = end + 1;
+            }
+        }
+
+        // a new bar cancels any accidentals
+        protected barLine() {
+            this.barLetters = [];
+            this.barShifts = [];
+        }
+
+        // append a copy of the repeated section (leaving out any first-ending)
+        protected repeat() {
+            let end = (this.firstEnding < 0) ? this.midis.length : this.firstEnding;
+            for (let i = this.repeatFrom; i < end; i++) {
+                this.ticks.push(this.ticks[i]);
+                this.midis.push(this.midis[i]);
+            }
+            this.repeatFrom = this.midis.length;
+            this.firstEnding = -1;
+        }
+
+        // "(3" plays 3 notes in the time of 2, etc.
+        protected parseTuplet() {
+            let n = parseInt(this.peek());
+            if (n > 1) {
+                this.here++;
+                let time = 2;
+                if ((n == 2) || (n == 4)) time = 3;
+                this.tupletLeft = n;
+                this.tupletFactor = time / n;
+            } // else just the start of a slur
+        }
+
+        // ">" lengthens the previous note and shortens the next one (or vice-versa for "<")
+        protected brokenRhythm(factor: number) {
+            let last = this.ticks.length - 1;
+            if (last >= 0) {
+                this.ticks[last] *= factor;
+                this.nextFactor = 2 - factor;
+            }
+        }
+
+        // read a note (or rest) with any accidental, octave-marks and length
+        protected parseNote() {
+            let shift = 0;
+            let explicit = false;
+            while ("^_=".indexOf(this.peek()) > -1) {
+                let c = this.peek();
+                if (c == "^") shift++;
+                if (c == "_") shift--;
+                explicit = true;
+                this.here++;
+            }
+            let c = this.peek();
+            this.here++;
+            let midi = 0; // (for a Rest)
+            let bars = 1;
+            if ((c == "z") || (c == "x")) {
+                // nothing more to do
+            } else if (c == "Z") {
+                // a multi-bar rest uses its number as a count of bars, not a length
+                let n = this.countDigits();
+                if (n > 0) bars = parseInt(this.text.substr(this.here - n, n));
+            } else {
+                let letter = "CDEFGAB".indexOf(c.toUpperCase());
+                let octave = (c == c.toUpperCase()) ? 4 : 5;
+                while ((this.peek() == "'") || (this.peek() == ",")) {
+                    octave += (this.peek() == "'") ? 1 : -1;
+                    this.here++;
+                }
+                // explicit accidentals persist to the end of the bar
+                let id = letter + 7 * octave;
+                let found = this.barLetters.indexOf(id);
+                if (explicit) {
+                    if (found < 0) {
+                        this.barLetters.push(id);
+                        this.barShifts.push(shift);
+                    } else {
+                        this.barShifts[found] = shift;
+                    }
+                } else if (found > -1) {
+                    shift = this.barShifts[found];
+                } else {
+                    shift = this.keyShift[letter];
+                }
+                midi = 12 * (octave + 1) + NATURAL_SEMIS[letter] + shift;
+            }
+            if (this.unitTicks < 0) this.unitTicks = QUAVER_TICKS; // (default if no L: or M:)
+            let length = (c == "Z") ? this.barTicks * bars : this.unitTicks * this.parseLength();
+            length *= this.nextFactor;
+            this.nextFactor = 1;
+            if (this.tupletLeft > 0) {
+                length *= this.tupletFactor;
+                this.tupletLeft--;
+            }
+            let last = this.midis.length - 1;
+            if (this.tied && (last >= 0) && (this.midis[last] == midi)) {
+                this.ticks[last] += length; // (a tie just extends the previous note)
+            } else {
+                this.ticks.push(length);
+                this.midis.push(midi);
+            }
+            this.tied = false;
+        }
+
+        // read a length-multiplier like "2", "/", "3/2" or "//"
+        protected parseLength(): number {
+            let length = 1;
+            let n = this.countDigits();
+            if (n > 0) length = parseInt(this.text.substr(this.here - n, n));
+            while (this.peek() == "/") {
+                this.here++;
+                n = this.countDigits();
+                if (n > 0) {
+                    length /= parseInt(this.text.substr(this.here - n, n));
+                } else {
+                    length /= 2;
+                }
+            }
+            return length;
+        }
+
+        // skip over (and count) any digits
+        protected countDigits(): number {
+            let start = this.here;
+            while ((this.peek() >= "0") && (this.peek() <= "9")) this.here++;
+            return (this.here - start);
+        }
+
+        // express the notes as a score in EKO-notation
+        toEKO(): string {
+            return ekoScore(this.ticks, this.midis);
+        }
+    }
+
+    /* 
+        A MidiReader extracts a single melody-line from a Standard MIDI File.
+        Note-on/note-off pairs from the chosen track and channel are reduced to a monophonic line 
+        (the highest sounding note wins), and then quantised to quarter-beat ticks, with gaps becoming Rests.
+    */
+    class MidiReader {
+        ticks: number[]; // extent of each note in ticks
+        midis: number[]; // MIDI note-number of each note (or 0 for a Rest)
+        volumes: number[]; // note-volume [0..255] scaled from each note's velocity
+        bpm: number; // tempo from the first Set-Tempo meta-event (or 0 if none)
+        protected data: Buffer;
+        protected here: number; // reading position within data
+        // note-on and note-off events from the chosen track & channel:
+        protected eventTimes: number[];
+        protected eventNotes: number[];
+        protected eventVelocities: number[]; // (0 for a note-off)
+
+        constructor(data: Buffer, track: number, channel: number) {
+            this.ticks = [];
+            this.midis = [];
+            this.volumes = [];
+            this.bpm = 0;
+            this.data = data;
+            this.eventTimes = [];
+            this.eventNotes = [];
+            this.eventVelocities = [];
+            if ((data.length < 14) || (this.readText(0, 4) != "MThd")) return; // not a MIDI file!
+            let nTracks = this.readNumber(10, 2);
+            let division = this.readNumber(12, 2); // (MIDI clocks per crotchet)
+            if (division >= 0x8000) division = 96; // (SMPTE timing isn't supported, so guess)
+            let start = 8 + this.readNumber(4, 4); // (skip the header chunk)
+            for (let i = 0; (i < nTracks) && (start + 8 <= data.length); i++) {
+                let end = Math.min(start + 8 + this.readNumber(start + 4, 4), data.length);
+                if (this.readText(start, 4) == "MTrk") {
+                    this.readTrack(start + 8, end, (i == track), channel);
+                }
+                start = end;
+            }
+            this.reduce(division / 4); // (MIDI clocks per tick)
+        }
+
+        protected readText(start: number, length: number): string {
+            let text = "";
+            for (let i = start; i < start + length; i++) {
+                text += String.fromCharCode(this.data[i]);
+            }
+            return text;
+        }
+
+        // read a big-endian unsigned number of 1 to 4 bytes
+        protected readNumber(start: number, length: number): number {
+            let value = 0;
+            for (let i = start; i < start + length; i++) {
+                value = (value * 256) + this.data[i];
+            }
+            return value;
+        }
+
+        // read a variable-length quantity, advancing our position
+        protected readVLQ(): number {
+            let value = 0;
+            for (let i = 0; i < 4; i++) {
+                let byte = this.data[this.here++];
+                value = (value * 128) + (byte & 0x7F);
+                if (byte < 0x80) break;
+            }
+            return value;
+        }
+
+        // scan the events of one track, keeping the notes only if this is the wanted track
+        // (any track may provide the tempo)
+        protected readTrack(start: number, end: number, wanted: boolean, channel: number) {
+            this.here = start;
+            let time = 0;
+            let status = 0;
+            while (this.here < end) {
+                time += this.readVLQ();
+                let byte = this.data[this.here];
+                if (byte >= 0x80) {
+                    status = byte;
+                    this.here++;
+                } // else "running status" re-uses the previous one
+                if (status == 0xFF) { // meta-event
+                    let type = this.data[this.here++];
+                    let length = this.readVLQ();
+                    if ((type == 0x51) && (length == 3) && (this.bpm == 0)) {
+                        let microsPerBeat = this.readNumber(this.here, 3);
+                        if (microsPerBeat > 0) {
+                            this.bpm = clamp(30, Math.round(60000000 / microsPerBeat), 480);
+                        }
+                    }
+                    if (type == 0x2F) break; // end of track
+                    this.here += length;
+                    status = 0; // (meta-events cancel any running status)
+                } else if ((status == 0xF0) || (status == 0xF7)) { // system-exclusive
+                    this.here += this.readVLQ();
+                    status = 0; // (and so does system-exclusive)
+                } else if (status == 0) {
+                    this.here++; // (skip a stray data-byte that has no status to run on)
+                } else {
+                    let kind = status >> 4;
+                    let note = this.data[this.here++];
+                    let velocity = 0;
+                    if ((kind != 0xC) && (kind != 0xD)) { // (all others have two data-bytes)
+                        velocity = this.data[this.here++];
+                    }
+                    let ours = wanted && ((channel == 0) || ((status & 0x0F) == channel - 1));
+                    if (ours && ((kind == 0x8) || (kind == 0x9))) {
+                        this.eventTimes.push(time);
+                        this.eventNotes.push(note);
+                        this.eventVelocities.push((kind == 0x9) ? velocity : 0);
+                    }
+                }
+            }
+        }
+
+        // reduce the note events to a single line of notes and rests (highest note wins)
+        protected reduce(clocksPerTick: number) {
+            let heldNotes: number[] = [];
+            let heldVelocities: number[] = [];
+            let segmentStart = 0;
+            let segmentMidi = 0;
+            let segmentVelocity = 0;
+            let groupStart = 0; // first of a group of simultaneous events
+            for (let i = 0; i < this.eventTimes.length; i++) {
+                let note = this.eventNotes[i];
+                let held = heldNotes.indexOf(note);
+                if (held > -1) { // (a note-on for a held note also ends it, before re-starting)
+                    heldNotes.splice(held, 1);
+                    heldVelocities.splice(held, 1);
+                }
+                if (this.eventVelocities[i] > 0) {
+                    heldNotes.push(note);
+                    heldVelocities.push(this.eventVelocities[i]);
+                }
+                // once all simultaneous events are done, see which note is now on top
+                if ((i + 1 < this.eventTimes.length) && (this.eventTimes[i + 1] == this.eventTimes[i])) {
+                    continue;
+                }
+                let topMidi = 0;
+                let topVelocity = 0;
+                for (let j = 0; j < heldNotes.length; j++) {
+                    if (heldNotes[j] > topMidi) {
+                        topMidi = heldNotes[j];
+                        topVelocity = heldVelocities[j];
+                    }
+                }
+                // (the top note may also have just been re-struck)
+                let struck = false;
+                for (let j = groupStart; j <= i; j++) {
+                    if ((this.eventNotes[j] == topMidi) && (this.eventVelocities[j] > 0)) struck = true;
+                }
+                if ((topMidi != segmentMidi) || struck) {
+                    this.addSegment(segmentStart, this.eventTimes[i], segmentMidi, segmentVelocity, clocksPerTick);
+                    segmentStart = this.eventTimes[i];
+                    segmentMidi = topMidi;
+                    segmentVelocity = topVelocity;
+                }
+                groupStart = i + 1;
+            }
+        }
+
+        // quantise a segment of the timeline to ticks, splitting any that are too long for EKO
+        protected addSegment(start: number, end: number, midi: number, velocity: number, clocksPerTick: number) {
+            let extent = Math.round(end / clocksPerTick) - Math.round(start / clocksPerTick);
+            let last = this.midis.length - 1;
+            if ((midi == 0) && (last >= 0) && (this.midis[last] == 0)) {
+                extent += this.ticks.pop(); // (merge adjacent Rests)
+                this.midis.pop();
+                this.volumes.pop();
+            }
+            while (extent > 0) {
+                let part = Math.min(extent, 64);
+                this.ticks.push(part);
+                this.midis.push(midi);
+                this.volumes.push(Math.round(velocity * DYNAMIC_FF / 127));
+                extent -= part;
+            }
+        }
+
+        // express the notes as a score in EKO-notation
+        toEKO(): string {
+            return ekoScore(this.ticks, this.midis);
+        }
+    }
+
+    /* 
+        An RTTTLReader converts a ringtone like "name:d=4,o=5,b=100:8e6,8d6,p,c#" into a list of notes.
+        Each note is [duration]{letter}[#][octave][.] with the duration & octave defaulting to the d= & o= settings.
+    */
+    class RTTTLReader {
+        ticks: number[]; // extent of each note (may be fractional until converted to EKO)
+        midis: number[]; // MIDI note-number of each note (or 0 for a Rest)
+        bpm: number; // tempo from the b= setting
+        title: string; // the ringtone's name
+
+        constructor(text: string) {
+            this.ticks = [];
+            this.midis = [];
+            this.bpm = 63; // (the RTTTL defaults)
+            let duration = 4;
+            let octave = 6;
+            let sections = text.split(":");
+            this.title = sections[0].trim();
+            if (sections.length < 3) return; // (not a proper ringtone)
+            let settings = sections[1].split(",");
+            for (let i = 0; i < settings.length; i++) {
+                let setting = settings[i].trim().toLowerCase();
+                let value = parseInt(setting.substr(2));
+                if (value > 0) {
+                    switch (setting.substr(0, 2)) {
+                        case "d=": duration = value;
+                            break;
+                        case "o=": octave = value;
+                            break;
+                        case "b=": this.bpm = clamp(30, value, 480);
+                            break;
+                    }
+                }
+            }
+            let notes = sections[2].split(",");
+            for (let i = 0; i < notes.length; i++) {
+                this.parseNote(notes[i].trim().toLowerCase(), duration, octave);
+            }
+        }
+
+        protected parseNote(note: string, defaultDuration: number, defaultOctave: number) {
+            let here = 0;
+            while ((here < note.length) && (note.charAt(here) >= "0") && (note.charAt(here) <= "9")) here++;
+            let duration = (here > 0) ? parseInt(note.substr(0, here)) : defaultDuration;
+            let letter = "cdefgab".indexOf(note.charAt(here));
+            if (note.charAt(here) == "h") letter = 6; // (German "H" is "B")
+            let rest = (note.charAt(here) == "p");
+            if ((letter < 0) && !rest) return; // (skip anything we don't understand)
+            here++;
+            let semi = 0;
+            if (note.charAt(here) == "#") {
+                semi = 1;
+                here++;
+            }
+            let dotted = false;
+            if (note.charAt(here) == ".") { // (some ringtones put the dot before the octave)
+                dotted = true;
+                here++;
+            }
+            let octave = parseInt(note.substr(here));
+            if (!(octave >= 0)) octave = defaultOctave;
+            if (note.indexOf(".", here) > -1) dotted = true;
+            let length = SEMIBREVE_TICKS / Math.max(duration, 1);
+            if (dotted) length *= 1.5;
+            this.ticks.push(length);
+            this.midis.push(rest ? 0 : 12 * (octave + 1) + NATURAL_SEMIS[letter] + semi);
+        }
+
+        // express the notes as a score in EKO-notation
+        toEKO(): string {
+            return ekoScore(this.ticks, this.midis);
+        }
+    }
+
+    // RTTTL names for each semitone in the octave
+    const RTTTL_KEYS = ["c", "c#", "d", "d#", "e", "f", "f#", "g", "g#", "a", "a#", "b"];
+    // extents (in ticks) expressible as RTTTL durations, longest first...
+    const RTTTL_EXTENTS = [24, 16, 12, 8, 6, 4, 3, 2, 1];
+    // ...and how they are written
+    const RTTTL_DURATIONS = ["1.", "1", "2.", "2", "4.", "4", "8.", "8", "16"];
+
+    // write a note (or Rest) in RTTTL, splitting awkward extents into several notes
+    function rtttlNote(ticks: number, midi: number): string {
+        let name = "p";
+        if (midi > 0) {
+            name = RTTTL_KEYS[midi % 12];
+            let octave = Math.idiv(midi, 12) - 1;
+            if (octave != 5) name += convertToText(octave);
+        }
+        let notes: string[] = [];
+        for (let i = 0; (i < RTTTL_EXTENTS.length) && (ticks > 0); i++) {
+            while (ticks >= RTTTL_EXTENTS[i]) {
+                let duration = RTTTL_DURATIONS[i];
+                if (duration.charAt(duration.length - 1) == ".") {
+                    duration = duration.substr(0, duration.length - 1);
+                    notes.push(((duration == "4") ? "" : duration) + name + ".");
+                } else {
+                    notes.push(((duration == "4") ? "" : duration) + name);
+                }
+                ticks -= RTTTL_EXTENTS[i];
+            }
+        }
+        return notes.join(",");
+    }
+
+    // a Play gets sounded in segments of at least this length (splitting any longer parts), so that an urgent 
+    // interruption can cut in between them
+    const SEGMENT_MS = 100;
+
+    // just a wrapper for the performance...
+    class Play {
+        parts: SoundExpression[]; // the sound-strings for each of its parts
+        priority: number; // urgent Plays (with higher priority) jump the queue
+        cutShort: boolean; // set if interrupted while sounding (or, for a silence, while it lasts)
+        resume: boolean; // if cut short, replay it afterwards (else abandon its sequence)
+        tag: string; // optional label, so user code can tell which Play is which
+        tagStart: boolean; // raise a "started" event for the tag (e.g. on the first note of a Tune)
+        tagEnd: boolean; // raise a "finished" event for the tag (e.g. on the last note of a Tune)
+        loop: Loop; // the Loop this Play belongs to (if any)
+        barStart: boolean; // whether it starts a new bar (so a Loop may be cancelled just before it)
+        sequence: number; // identifies the Tune or Loop it belongs to (else it's a sequence on its own)
+        constructor() {
+            playCount++;
+            this.sequence = playCount;
+            this.parts = [];
+            this.priority = 0;
+            this.cutShort = false;
+            this.resume = false;
+            this.tag = "";
+            this.tagStart = true;
+            this.tagEnd = true;
+            this.loop = null;
+            this.barStart = true;
+        }
+    }
+
+    /*
+        A Loop repeats a FlexFX or a Tune (a given number of times, or until cancelled).
+        Rather than queueing every repetition at once, just one is queued at a time, followed by 
+        an empty "marker" Play: when the player reaches the marker, it queues the next repetition.
+    */
+    class Loop {
+        handle: number; // identifies the Loop, so it can be cancelled
+        channel: PlayChannel; // where it gets played
+        flex: FlexFX; // what plays it...
+        tune: Tune; // ...and (optionally) what Tune it plays
+        pitch: number; // Play settings, as for playFlexFX...
+        transpose: number; // ...or playTune
+        volumeLimit: number;
+        duration: number; // (of each FlexFX Play, or of each performance of the Tune)
+        tag: string;
+        legato: boolean; // (for a Tune) merging slurred notes
+        repeats: number; // how many repetitions in all (or 0 for "until cancelled")
+        done: number; // how many repetitions have been queued so far
+        sequence: number; // shared by all the Plays of every repetition (0 until the first is queued)
+
+        constructor(channel: PlayChannel, flex: FlexFX, tune: Tune, repeats: number) {
+            loopCount++;
+            this.handle = loopCount;
+            this.channel = channel;
+            this.flex = flex;
+            this.tune = tune;
+            this.pitch = 0;
+            this.transpose = 0;
+            this.volumeLimit = 0;
+            this.duration = 0;
+            this.tag = "";
+            this.legato = false;
+            this.repeats = repeats;
+            this.done = 0;
+            this.sequence = 0;
+        }
+    }
+
+    /*
+        A PlayChannel is a named play-list, with its own controls and activity events.
+        As only one sound can be heard at a time, a single background player serves every channel.
+        ARBITRATION POLICY: whenever a Play finishes, the next Play is taken from the channel that is ready 
+        with the most urgent Play at its head (or, if that's a tie, from the highest-priority channel). So a higher-priority channel (e.g. for sound-effects) interrupts a lower 
+        one (e.g. for music) at the end of its current Play, and the lower one then resumes where it left off.
+        Channels of equal priority are served in the order they were created. A queued silence only 
+        occupies its own channel, so other channels can play during it.
+    */
+    class PlayChannel {
+        name: string; // unique identifier
+        eventId: number; // source-ID for this channel's activity events
+        priority: number; // higher priority channels get played first
+        playList: Play[]; // Performances get queued onto the play-list to ensure proper asynchronous sequencing
+        active: boolean; // the player is working through our play-list
+        playing: boolean; // a performance from our play-list is being played
+        stopped: boolean; // playing of our play-list inhibited for now
+        silentUntil: number; // time (ms) at which any silence we're "playing" will end
+        silence: Play; // the silent Play we're "playing" (if any)
+        tag: string; // the tag of the Play we're currently playing (if any)
+
+        constructor(name: string, eventId: number, priority: number) {
+            this.name = name;
+            this.eventId = eventId;
+            this.priority = priority;
+            this.playList = [];
+            this.active = false;
+            this.playing = false;
+            this.stopped = false;
+            this.silentUntil = 0;
+            this.silence = null;
+            this.tag = "";
+        }
+    }
+
+
+    // activity events (for other components to synchronise with)
+    const FLEXFX_ACTIVITY_ID = 9050 // TODO: Check (somehow?) that this is a permissable value!
+    enum PLAYER {
+        STARTING = 1,
+        FINISHED = 2,
+        ALLPLAYED = 3,
+    }
+    enum COMPOSER {
+        BADSCORE = 4, // (follows on from PLAYER events, sharing the same ID)
+    }
+    // tagged Plays raise events whose value identifies the tag, from these separate sources
+    const FLEXFX_TAG_STARTED_ID = 9040
+    const FLEXFX_TAG_FINISHED_ID = 9041
+
+    /* 
+        A FlexFX is a potentially composite sound-effect.
+        It can specify several component soundExpressions called "parts" that get played consecutively.
+        Each part has a [frequency,volume] start-point and end-point.
+        Apart from the first part, the start-point gets inherited from the previous end-point,
+        so an n-part FlexFX moves through (n+1) [frequency,volume] points.
+        It is built, one part at a time, using defineFlexFX() followed by zero or more extendFlexFX() calls.
+    */
+
+    // software attack-curves are approximated by up to this many straight-line steps (each lasting at least CURVE_STEP_MS)
+    const CURVE_STEPS = 8;
+    const CURVE_STEP_MS = 20;
+
+    // is this an attack-curve we have to build in software (rather than one the synthesiser provides)?
+    function isSoftCurve(attack: Attack): boolean {
+        return (attack >= Attack.Delayed);
+    }
+
+    // the pitch reached after a fraction t [0..1] of a part, following the attack-curve from startPitch to endPitch
+    // (synthesiser curves only ever get asked for their end-points)
+    function curvePitch(attack: Attack, startPitch: number, endPitch: number, t: number): number {
+        let f = t;
+        switch (attack) {
+            case Attack.Delayed: f = t * t * t; // (lingering near the start, then moving late)
+                break;
+            case Attack.EaseIn: f = t * t;
+                break;
+            case Attack.EaseOut: f = 1 - (1 - t) * (1 - t);
+                break;
+            case Attack.SCurve: f = t * t * (3 - 2 * t);
+                break;
+            case Attack.Exponential: // (moving by equal musical intervals in equal times)
+                return startPitch * ((endPitch / startPitch) ** t);
+        }
+        return startPitch + (endPitch - startPitch) * f;
+    }
+
+    // duration of step k (of n) in a part lasting d ms (rounding, so the steps always add up to d)
+    function stepMs(d: number, k: number, n: number): number {
+        return Math.round(((k + 1) * d) / n) - Math.round((k * d) / n);
+    }
+
+    // an LFO splits its part into straight-line steps of at most LFO_STEP_MS, with at least LFO_CYCLE_STEPS to each wobble
+    // (which is why LFO_MAX_RATE keeps every step at least 10 ms long); but to save memory, it never uses more 
+    // than LFO_STEPS in all, so only in parts lasting several seconds do the steps get any coarser
+    const LFO_STEP_MS = 25;
+    const LFO_CYCLE_STEPS = 8;
+    const LFO_MAX_RATE = 12;
+    const LFO_STEPS = 240;
+
+    /*
+        An LFO (low-frequency oscillator) is a software replacement for the synthesiser's fixed effects.
+        It wobbles the pitch (vibrato) and/or the volume (tremolo) of a FlexFX part at a chosen rate, depth and shape,
+        maybe only after a delay (when it fades in over its first wobble, as a violinist's or flautist's vibrato does).
+    */
+    class LFO {
+        rate: number; // wobbles per second (in Hz)
+        vibrato: number; // how far the pitch wobbles either way (in cents)
+        tremolo: number; // how far the volume dips (as a percentage)
+        shape: LFOShape;
+        delay: number; // how long before the wobbling starts (in ms)
+
+        constructor(rate: number, vibrato: number, tremolo: number, shape: LFOShape, delay: number) {
+            this.rate = clamp(0.1, rate, LFO_MAX_RATE);
+            this.vibrato = clamp(0, vibrato, 1200);
+            this.tremolo = clamp(0, tremolo, 100);
+            this.shape = shape;
+            this.delay = clamp(0, delay, 10000);
+        }
+
+        // how far the wobbling has faded in [0 to 1] by time t (ms) into the part
+        protected fade(t: number): number {
+            return clamp(0, ((t - this.delay) * this.rate) / 1000, 1);
+        }
+
+        // the wobble [-1 to +1] at time t (ms) into the part
+        protected wobble(t: number): number {
+            if (t <= this.delay) return 0;
+            let cycles = ((t - this.delay) * this.rate) / 1000;
+            let phase = cycles - Math.floor(cycles);
+            let w = 0;
+            switch (this.shape) {
+                case LFOShape.Sine: w = Math.sin(2 * Math.PI * phase);
+                    break;
+                case LFOShape.Triangle: w = (phase < 0.25) ? 4 * phase : ((phase < 0.75) ? 2 - 4 * phase : 4 * phase - 4);
+                    break;
+                case LFOShape.Square: w = (phase < 0.5) ? 1 : -1;
+                    break;
+                case LFOShape.Sawtooth: w = (phase < 0.5) ? 2 * phase : 2 * phase - 2;
+                    break;
+            }
+            return w;
+        }
+
+        // the wobbled pitch at time t (ms)
+        pitchAt(pitch: number, t: number): number {
+            return pitch * (2 ** ((this.vibrato * this.fade(t) * this.wobble(t)) / 1200));
+        }
+
+        // the wobbled volume at time t (ms)
+        // (only ever dipping below the given volume, so the peak volume still holds good)
+        volumeAt(volume: number, t: number): number {
+            return volume * (1 - (this.tremolo * this.fade(t) * (1 - this.wobble(t))) / 200);
+        }
+
+        // write out as a recipe item, like "L6/30/0/S/200"
+        toRecipe(): string {
+            return "L" + convertToText(this.rate) + "/" + convertToText(this.vibrato) + "/" + convertToText(this.tremolo)
+                + "/" + "STQW".charAt(this.shape) + "/" + convertToText(this.delay);
+        }
+    }
+
+    class FlexFX {
+        // properties
+        id: string; // identifier
+        nParts: number;
+        prototype: Play; // contains the [nParts] SoundExpressions forming this flexFX
+        fullDuration: number; // overall cumulative duration of prototype
+        peakVolume: number; // remembers the highest volume [0-1020] in the prototype
+        pitchAverage: number; // approximate average pitch (in Hz)
+        pitchMidi: number; // midi note-number of average pitch (counted in semitones)
+        pitchProfile: number[];  // contains [nParts + 1] scalable frequencies
+        volumeProfile: number[];  // contains [nParts + 1] scalable volumes [0-1020]
+        durationProfile: number[]; // contains [nParts] scalable durations
+        waveProfile: Wave[]; // contains [nParts] wave-shapes...
+        attackProfile: Attack[]; // ...attacks...
+        effectProfile: Effect[]; // ...and effects (remembered for writing out recipes)
+        stepsProfile: number[]; // contains [nParts] counts of the SoundExpressions making up each part
+        stretchProfile: Stretch[]; // contains [nParts] policies for stretching each part...
+        minProfile: number[]; // ...and [nParts] limits on the durations...
+        maxProfile: number[]; // ...of its Proportional parts
+        lfoProfile: LFO[]; // contains [nParts] LFOs (or nulls, for parts without one)
+
+
+        constructor(id: string) {
+            this.id = id;
+            this.initialise();
+        }
+
+        initialise() {
+            this.nParts = 0;
+            this.prototype = new Play;
+            this.fullDuration = 0;
+            this.peakVolume = 0;
+            this.pitchAverage = 0;
+            this.pitchMidi = 0;
+            this.pitchProfile = [];
+            this.volumeProfile = [];
+            this.durationProfile = [];
+            this.waveProfile = [];
+            this.attackProfile = [];
+            this.effectProfile = [];
+            this.stepsProfile = [];
+            this.stretchProfile = [];
+            this.minProfile = [];
+            this.maxProfile = [];
+            this.lfoProfile = [];
+        }
+
+        // internal tools...
+
+        protected goodPitch(pitch: number): number {
+            return Math.min(Math.max(pitch, 1), 9999);
+        }
+        protected goodVolume(volume: number): number {
+            return Math.min(Math.max(volume, 0), 1023);
+        }
+        protected goodDuration(duration: number): number {
+            return Math.min(Math.max(duration, 10), 9999);
+        }
+
+        // methods...
+
+        // begin setting up the very first part of a new FlexFX
+        startWith(startPitch: number, startVolume: number) {
+            this.pitchProfile.push(this.goodPitch(startPitch)); // pitchProfile[0]
+            let v = this.goodVolume(startVolume * 4); // internally, volumes are [0-1020]
+            this.volumeProfile.push(v);                         // volumeProfile[0]
+            this.peakVolume = v; // ...until proven otherwise
+            this.pitchAverage = startPitch;
+        }
+
+        // add the details of the next part (ensuring all parameters are sensible)
+        addPart(wave: Wave, attack: Attack, effect: Effect, endPitch: number, endVolume: number, duration: number) {
+
+            this.pitchProfile.push(this.goodPitch(endPitch));
+
+            let bigEndVol = this.goodVolume(endVolume * 4);
+            this.volumeProfile.push(bigEndVol);
+            this.peakVolume = Math.max(this.peakVolume, bigEndVol);
+
+            let d = this.goodDuration(duration);
+            this.durationProfile.push(d);
+            this.waveProfile.push(wave);
+            this.attackProfile.push(attack);
+            this.effectProfile.push(effect);
+            this.stretchProfile.push(Stretch.Proportional);
+            this.minProfile.push(10);
+            this.maxProfile.push(9999);
+            this.lfoProfile.push(null);
+
+            // start where the [pitch,volume] last ended:
+            // (this.nParts hasn't yet been incremented, so indexes the previous part)
+            let startPitch = this.pitchProfile[this.nParts];
+            endPitch = this.pitchProfile[this.nParts + 1];
+            let steps = this.curveSteps(this.nParts);
+
+            if (wave != Wave.Silence) {
+                // compute average pitch of this part
+                let pitch = 0;
+                if (steps > 1) {
+                    // (averaging the mid-points of its steps)
+                    for (let k = 0; k < steps; k++) {
+                        pitch += (curvePitch(attack, startPitch, endPitch, k / steps)
+                            + curvePitch(attack, startPitch, endPitch, (k + 1) / steps)) / (2 * steps);
+                    }
+                } else {
+                    let blend = 0;
+                    switch (attack) {
+                        case Attack.Fast: blend = 0.1; // nearly all End pitch
+                            break;
+                        case Attack.Medium: blend = 0.2; // mostly End pitch
+                            break;
+                        default: blend = 0.5; // fifty-fifty (for Even, or any unchanging pitch)
+                    }
+                    pitch = (blend * startPitch) + ((1 - blend) * endPitch);
+                }
+                // update overall average pitch, weighted by duration of each part
+                let kilocycles = (this.pitchAverage * this.fullDuration + pitch * d);
+                this.pitchAverage = kilocycles / (this.fullDuration + d);
+                // update its MIDI equivalent (including microtonal fractions)
+                this.pitchMidi = hertzToMidi(this.pitchAverage);
+            }
+            this.fullDuration += d; // always add duration, even if silent
+
+            // create the SoundExpression(s), and add them into the prototype
+            this.stepsProfile.push(steps);
+            let sounds = this.partSounds(this.nParts);
+            for (let k = 0; k < sounds.length; k++) {
+                this.prototype.parts.push(sounds[k]);
+            }
+            this.nParts++;
+        }
+
+        // how many straight-line steps a part needs to follow its attack-curve
+        // (only a software attack-curve needs more than one, and only if the pitch changes)
+        protected curveSteps(part: number): number {
+            let d = this.durationProfile[part];
+            if (isSoftCurve(this.attackProfile[part]) && (this.waveProfile[part] != Wave.Silence)
+                && (this.pitchProfile[part] != this.pitchProfile[part + 1])) {
+                return clamp(2, Math.idiv(d, CURVE_STEP_MS), CURVE_STEPS);
+            }
+            return 1;
+        }
+
+        // build the SoundExpression(s) making up a part of the prototype
+        protected partSounds(part: number): SoundExpression[] {
+            if (this.lfoProfile[part] != null) {
+                return this.wobblySounds(part, 1.0, 1.0, this.durationProfile[part]);
+            }
+            let sounds: SoundExpression[] = [];
+            // turn our enums into simple numbers
+            let waveNumber: number = this.waveProfile[part];
+            let effectNumber: number = this.effectProfile[part];
+            let attack = this.attackProfile[part];
+            let attackNumber: number = attack;
+            let startPitch = this.pitchProfile[part];
+            let endPitch = this.pitchProfile[part + 1];
+            let startVolume = this.volumeProfile[part];
+            let endVolume = this.volumeProfile[part + 1];
+            let d = this.durationProfile[part];
+            let steps = this.curveSteps(part);
+            if (isSoftCurve(attack)) {
+                // (the synthesiser doesn't know our software curves: each step is a straight line,
+                // even when there's only one, because the pitch stays put)
+                attackNumber = InterpolationCurve.Linear;
+            }
+            if (this.waveProfile[part] == Wave.Silence) {
+                // ensure this part plays silently, while preserving the end-point of the previous part 
+                // and the start-point of any following part
+                startVolume = 0;
+                endVolume = 0;
+                waveNumber = WaveShape.Sine; // arbitrarily, as silent!
+            }
+            for (let k = 0; k < steps; k++) {
+                sounds.push(music.createSoundExpression(waveNumber,
+                    curvePitch(attack, startPitch, endPitch, k / steps),
+                    curvePitch(attack, startPitch, endPitch, (k + 1) / steps),
+                    startVolume + ((endVolume - startVolume) * k) / steps,
+                    startVolume + ((endVolume - startVolume) * (k + 1)) / steps,
+                    stepMs(d, k, steps), effectNumber, attackNumber));
+            }
+            return sounds;
+        }
+
+        // build the many short straight-line steps of a part with an LFO, tuned and lasting d ms
+        // (the wobbles keep their own rate, however long the part lasts)
+        protected wobblySounds(part: number, pitchRatio: number, volumeRatio: number, d: number): SoundExpression[] {
+            let sounds: SoundExpression[] = [];
+            let lfo = this.lfoProfile[part];
+            let waveNumber: number = this.waveProfile[part];
+            let effectNumber: number = this.effectProfile[part];
+            let attack = this.attackProfile[part];
+            let startPitch = this.pitchProfile[part];
+            let endPitch = this.pitchProfile[part + 1];
+            let startVolume = this.volumeProfile[part];
+            let endVolume = this.volumeProfile[part + 1];
+            let stepMax = Math.min(LFO_STEP_MS, 1000 / (lfo.rate * LFO_CYCLE_STEPS));
+            let steps = clamp(1, Math.ceil(d / stepMax), LFO_STEPS);
+            for (let k = 0; k < steps; k++) {
+                let t0 = k / steps;
+                let t1 = (k + 1) / steps;
+                sounds.push(music.createSoundExpression(waveNumber,
+                    this.goodPitch(lfo.pitchAt(curvePitch(attack, startPitch, endPitch, t0), t0 * d) * pitchRatio),
+                    this.goodPitch(lfo.pitchAt(curvePitch(attack, startPitch, endPitch, t1), t1 * d) * pitchRatio),
+                    this.goodVolume(lfo.volumeAt(startVolume + (endVolume - startVolume) * t0, t0 * d) * volumeRatio),
+                    this.goodVolume(lfo.volumeAt(startVolume + (endVolume - startVolume) * t1, t1 * d) * volumeRatio),
+                    stepMs(d, k, steps), effectNumber, InterpolationCurve.Linear));
+            }
+            return sounds;
+        }
+
+        // give a part an LFO (or take it away, if null), rebuilding its SoundExpressions in the prototype
+        // (a silent part has nothing to wobble)
+        setLFO(part: number, lfo: LFO) {
+            if ((part < 0) || (part >= this.nParts) || (this.waveProfile[part] == Wave.Silence)) return;
+            let at = 0;
+            for (let i = 0; i < part; i++) {
+                at += this.stepsProfile[i];
+            }
+            this.prototype.parts.splice(at, this.stepsProfile[part]);
+            this.lfoProfile[part] = lfo;
+            let sounds = this.partSounds(part);
+            for (let k = 0; k < sounds.length; k++) {
+                this.prototype.parts.insertAt(at + k, sounds[k]);
+            }
+            this.stepsProfile[part] = sounds.length;
+        }
+
+        // add a part in the style of a part of another FlexFX (copying its wave-shape, effect, stretch policy and LFO)
+        // but with its own attack, end-point and duration
+        addPartLike(source: FlexFX, part: number, attack: Attack, endPitch: number, endVolume: number, duration: number) {
+            this.addPart(source.waveProfile[part], attack, source.effectProfile[part], endPitch, endVolume, duration);
+            this.setStretch(this.nParts - 1, source.stretchProfile[part], source.minProfile[part], source.maxProfile[part]);
+            if (source.lfoProfile[part] != null) {
+                this.setLFO(this.nParts - 1, source.lfoProfile[part]);
+            }
+        }
+
+        // choose how each part may stretch (or squash) when the duration changes
+        setStretch(part: number, stretch: Stretch, minDuration: number, maxDuration: number) {
+            if ((part >= 0) && (part < this.nParts)) {
+                this.stretchProfile[part] = stretch;
+                this.minProfile[part] = this.goodDuration(minDuration);
+                this.maxProfile[part] = Math.max(this.goodDuration(maxDuration), this.minProfile[part]);
+            }
+        }
+
+        // share out a new overall duration between the parts: Fixed parts keep their own duration; 
+        // Proportional parts get scaled (within their limits); Elastic parts take up whatever is left
+        // (or, if there are no Elastic parts, the Proportional ones get scaled to take it up instead)
+        // If it just won't fit, every part gets scaled alike.
+        stretchedDurations(newDuration: number): number[] {
+            let fixed = 0;
+            let elastic = 0;
+            let proportional = 0;
+            for (let i = 0; i < this.nParts; i++) {
+                switch (this.stretchProfile[i]) {
+                    case Stretch.Fixed: fixed += this.durationProfile[i];
+                        break;
+                    case Stretch.Elastic: elastic += this.durationProfile[i];
+                        break;
+                    default: proportional += this.durationProfile[i];
+                }
+            }
+            let ratio = newDuration / this.fullDuration;
+            if ((elastic == 0) && (proportional > 0)) {
+                ratio = (newDuration - fixed) / proportional;
+            }
+            let durations: number[] = [];
+            let spare = newDuration;
+            for (let i = 0; i < this.nParts; i++) {
+                let d = this.durationProfile[i];
+                switch (this.stretchProfile[i]) {
+                    case Stretch.Fixed: break;
+                    case Stretch.Elastic: d = 0; // (for now)
+                        break;
+                    default: d = clamp(this.minProfile[i], d * ratio, this.maxProfile[i]);
+                }
+                durations.push(d);
+                spare -= d;
+            }
+            let fits = (ratio > 0);
+            if (elastic == 0) {
+                // any Proportional parts held back by their limits leave some over (or under), 
+                // so share that among the others that can still stretch (or squash), until none are left
+                let free = proportional;
+                while ((Math.abs(spare) >= 1) && (free > 0)) {
+                    free = 0;
+                    for (let i = 0; i < this.nParts; i++) {
+                        if (this.canStretch(i, durations[i], spare)) free += durations[i];
+                    }
+                    if (free > 0) {
+                        let scale = (free + spare) / free;
+                        for (let i = 0; i < this.nParts; i++) {
+                            if (this.canStretch(i, durations[i], spare)) {
+                                let d = clamp(this.minProfile[i], durations[i] * scale, this.maxProfile[i]);
+                                spare -= d - durations[i];
+                                durations[i] = d;
+                            }
+                        }
+                    }
+                }
+                if (Math.abs(spare) >= 1) fits = false; // (the parts can't add up to the new duration)
+            }
+            for (let i = 0; i < this.nParts; i++) {
+                if (this.stretchProfile[i] == Stretch.Elastic) {
+                    durations[i] = (spare * this.durationProfile[i]) / elastic;
+                    if (durations[i] < 10) fits = false;
+                }
+            }
+            if (!fits) {
+                ratio = newDuration / this.fullDuration;
+                for (let i = 0; i < this.nParts; i++) {
+                    durations[i] = this.durationProfile[i] * ratio;
+                }
+            }
+            return durations;
+        }
+
+        // whether a Proportional part (currently lasting d ms) is still free to take up some spare time (or shortfall)
+        canStretch(part: number, d: number, spare: number): boolean {
+            if (this.stretchProfile[part] != Stretch.Proportional) return false;
+            return (spare > 0) ? (d < this.maxProfile[part]) : (d > this.minProfile[part]);
+        }
+
+        // Create a specifically tuned performance of this FlexFX
+        makeTunedPlay(pitch: number, volumeLimit: number, newDuration: number): Play {
+            let scaledVolumeLimit = volumeLimit * 4;
+            let play = new Play;
+            let sound = new soundExpression.Sound;
+            let pitchRatio = 1.0;
+            let volumeRatio = 1.0;
+            let durationRatio = 1.0;
+            // code defensively!
+            if (pitch * this.pitchAverage != 0) pitchRatio = pitch / this.pitchAverage;
+            if (scaledVolumeLimit * this.peakVolume != 0) volumeRatio = scaledVolumeLimit / this.peakVolume;
+            if (newDuration * this.fullDuration != 0) durationRatio = newDuration / this.fullDuration;
+            let durations = this.durationProfile;
+            if (durationRatio != 1.0) durations = this.stretchedDurations(newDuration);
+            // apply ratios (where changed from 1.0) to relevant fields of each part in turn
+            // (and to each step of any part that follows a software attack-curve)
+            let j = 0; // (indexes the prototype's SoundExpressions)
+            for (let i = 0; i < this.nParts; i++) {
+                let steps = this.stepsProfile[i];
+                if (this.lfoProfile[i] != null) {
+                    // (a part with an LFO just gets built afresh)
+                    let sounds = this.wobblySounds(i, pitchRatio, volumeRatio, durations[i]);
+                    for (let k = 0; k < sounds.length; k++) {
+                        play.parts.push(sounds[k]);
+                    }
+                    j += steps;
+                    continue;
+                }
+                let attack = this.attackProfile[i];
+                let startPitch = this.pitchProfile[i];
+                let endPitch = this.pitchProfile[i + 1];
+                let startVolume = this.volumeProfile[i];
+                let endVolume = this.volumeProfile[i + 1];
+                for (let k = 0; k < steps; k++) {
+                    sound.src = this.prototype.parts[j].getNotes(); // current string
+                    sound.frequency = this.goodPitch(curvePitch(attack, startPitch, endPitch, k / steps) * pitchRatio);
+                    sound.endFrequency = this.goodPitch(curvePitch(attack, startPitch, endPitch, (k + 1) / steps) * pitchRatio);
+
+                    if (volumeRatio != 1.0) {
+                        sound.volume = this.goodVolume((startVolume + ((endVolume - startVolume) * k) / steps) * volumeRatio);
+                        sound.endVolume = this.goodVolume((startVolume + ((endVolume - startVolume) * (k + 1)) / steps) * volumeRatio);
+                    }
+                    if (durations[i] != this.durationProfile[i]) {
+                        sound.duration = this.goodDuration(stepMs(durations[i], k, steps));
+                    }
+                    play.parts.push(new SoundExpression(sound.src)); // modified string
+                    j++;
+                }
+            }
+            return (play);
+        }
+
+    }
 
     // Store a flexFX (overwriting any previous instance)
     function storeFlexFX(target: FlexFX) {
@@ -490,47 +2292,313 @@ namespace flexFX {
         flexFXList.push(target);
     }
 
-    // kick off the background player (if not already running)
-    function activatePlayer() {
-        if (!(playerActive || playerStopped)) {
-            playerActive = true;
-            control.inBackground(() => player());
+    // the attack that follows the same curve as another one, but backwards in time
+    function reversedAttack(attack: Attack): Attack {
+        switch (attack) {
+            case Attack.Fast: return Attack.Delayed;
+            case Attack.Delayed: return Attack.Fast;
+            case Attack.Medium: return Attack.EaseIn;
+            case Attack.EaseIn: return Attack.EaseOut;
+            case Attack.EaseOut: return Attack.EaseIn;
+        }
+        return attack; // (Even, SCurve and Exponential are symmetrical)
+    }
+
+    // read a profile at a fractional point-index u (interpolating between its neighbouring points)
+    function profileAt(profile: number[], u: number): number {
+        let k = clamp(0, Math.floor(u), profile.length - 2);
+        return profile[k] + (profile[k + 1] - profile[k]) * (u - k);
+    }
+
+    // a FlexFX's pitch-profile, as (fractional) MIDI note-numbers, so it can be interpolated musically
+    function midiProfile(flex: FlexFX): number[] {
+        let midis: number[] = [];
+        for (let i = 0; i <= flex.nParts; i++) {
+            midis.push(hertzToMidi(flex.pitchProfile[i]));
+        }
+        return midis;
+    }
+
+    // the time (ms) at which each of a FlexFX's points is reached
+    function timeProfile(flex: FlexFX): number[] {
+        let times = [0];
+        for (let i = 0; i < flex.nParts; i++) {
+            times.push(times[i] + flex.durationProfile[i]);
+        }
+        return times;
+    }
+
+    // find a play-channel by name (creating it, if necessary)
+    function getChannel(name: string): PlayChannel {
+        let channel: PlayChannel = channelList.find(i => i.name === name);
+        if (channel == null) {
+            // new channels get their own event-ID, and take priority over the main channel
+            channel = new PlayChannel(name, FLEXFX_ACTIVITY_ID + channelList.length, 1);
+            channelList.push(channel);
+        }
+        return channel;
+    }
+
+    // kick off the background player for this channel (if not already running)
+    function activatePlayer(channel: PlayChannel) {
+        if (!(channel.active || channel.stopped)) {
+            channel.active = true;
+            if (!playerActive) {
+                playerActive = true;
+                launchPlayer();
+            }
+        }
+        if (playerWaiting && (nextChannel() != null)) {
+            // the player is asleep until some silence ends, but there's now something to play,
+            // so hand over to a fresh player (the sleeping one will bow out when it wakes)
+            playerWaiting = false;
+            launchPlayer();
+        }
+    }
+
+    // start a new background player fiber (superseding any previous one)
+    function launchPlayer() {
+        playerFiber++;
+        let fiber = playerFiber;
+        control.inBackground(() => player(fiber));
+    }
+
+    // add a Play to a channel's playList, behind any others at least as urgent
+    // (or, if ahead is true, in front of any others that are no more urgent)
+    function queuePlay(channel: PlayChannel, play: Play, ahead: boolean = false) {
+        let at = 0;
+        if (ahead) {
+            while ((at < channel.playList.length) && (channel.playList[at].priority > play.priority)) at++;
+        } else {
+            while ((at < channel.playList.length) && (channel.playList[at].priority >= play.priority)) at++;
+        }
+        channel.playList.insertAt(at, play);
+    }
+
+    // pick the ready channel with the most urgent Play at its head, favouring 
+    // higher-priority channels for equally urgent Plays (returns null if none)
+    function nextChannel(): PlayChannel {
+        let now = control.millis();
+        let chosen: PlayChannel = null;
+        for (let i = 0; i < channelList.length; i++) {
+            let channel = channelList[i];
+            if (channel.active && (channel.playList.length > 0)
+                && ((channel.silentUntil <= now) || interruptsSilence(channel))) {
+                if (chosen == null) {
+                    chosen = channel;
+                } else {
+                    let urgency = channel.playList[0].priority - chosen.playList[0].priority;
+                    if ((urgency > 0) || ((urgency == 0) && (channel.priority > chosen.priority))) {
+                        chosen = channel;
+                    }
+                }
+            }
+        }
+        return chosen;
+    }
+
+    // is the channel's silence interrupted by a more urgent Play waiting at its head?
+    function interruptsSilence(channel: PlayChannel): boolean {
+        return (channel.silence != null) && channel.silence.cutShort
+            && (channel.playList[0].priority > channel.silence.priority);
+    }
+
+    // roughly how far (as a fraction) a hardware interpolation-curve has moved, at fraction t of the way through its part
+    function hardwareCurve(shape: number, t: number): number {
+        switch (shape) {
+            case InterpolationCurve.Logarithmic: return (Math.log(0.1 + 9.9 * t) / Math.log(10) + 1) / 2;
+            case InterpolationCurve.Curve: return Math.sin(t * Math.PI / 2);
+        }
+        return t;
+    }
+
+    // split a sound-string lasting at least two segments into straight-line pieces of (just over) SEGMENT_MS, 
+    // following its interpolation-curve (so that an interruption needn't wait for the whole part to end)
+    function splitSound(src: string): string[] {
+        let sound = new soundExpression.Sound;
+        sound.src = src;
+        let d = sound.duration;
+        let n = Math.floor(d / SEGMENT_MS);
+        if (n < 2) return [src];
+        let shape = sound.shape;
+        let startPitch = sound.frequency;
+        let endPitch = sound.endFrequency;
+        let startVolume = sound.volume;
+        let endVolume = sound.endVolume;
+        let pieces: string[] = [];
+        sound.shape = InterpolationCurve.Linear;
+        for (let k = 0; k < n; k++) {
+            sound.frequency = Math.round(startPitch + (endPitch - startPitch) * hardwareCurve(shape, k / n));
+            sound.endFrequency = Math.round(startPitch + (endPitch - startPitch) * hardwareCurve(shape, (k + 1) / n));
+            sound.volume = Math.round(startVolume + ((endVolume - startVolume) * k) / n);
+            sound.endVolume = Math.round(startVolume + ((endVolume - startVolume) * (k + 1)) / n);
+            sound.duration = stepMs(d, k, n);
+            pieces.push(sound.src);
         }
+        return pieces;
     }
 
-    // in turn, play everything currently on the playList
-    function player() {
+    // flatten the parts[] of sound-strings into comma-separated segments, each lasting at least 
+    // SEGMENT_MS (so that an interruption can cut in between them, once the current one is done)
+    function soundSegments(play: Play): string[] {
+        let segments: string[] = [];
+        let segment = "";
+        let ms = 0;
+        let sound = new soundExpression.Sound;
+        for (let i = 0; i < play.parts.length; i++) {
+            let pieces = splitSound(play.parts[i].getNotes());
+            for (let j = 0; j < pieces.length; j++) {
+                sound.src = pieces[j];
+                if (segment.length > 0) {
+                    segment += ",";
+                }
+                segment += sound.src;
+                ms += sound.duration;
+                if ((ms >= SEGMENT_MS) || ((i == play.parts.length - 1) && (j == pieces.length - 1))) {
+                    segments.push(segment);
+                    segment = "";
+                    ms = 0;
+                }
+            }
+        }
+        return segments;
+    }
+
+    // convert a tag to its own (non-zero) event value, registering it if it's new
+    function tagValue(tag: string): number {
+        let at = tagList.indexOf(tag);
+        if (at < 0) {
+            tagList.push(tag);
+            at = tagList.length - 1;
+        }
+        return at + 1; // (as 0 would match any event value)
+    }
+
+    // note that a channel has started playing a Play, announcing its tag (if wanted)
+    function startTag(channel: PlayChannel, play: Play) {
+        channel.tag = play.tag;
+        if ((play.tag != "") && play.tagStart) {
+            control.raiseEvent(FLEXFX_TAG_STARTED_ID, tagValue(play.tag));
+        }
+    }
+
+    // note that a channel has finished playing a Play, announcing its tag (if wanted)
+    function finishTag(channel: PlayChannel, play: Play) {
+        channel.tag = "";
+        if ((play.tag != "") && play.tagEnd) {
+            control.raiseEvent(FLEXFX_TAG_FINISHED_ID, tagValue(play.tag));
+        }
+    }
+
+    // announce the end of any tagged sequences whose remaining Plays are being abandoned
+    // (so that nothing waits forever for them to finish)
+    function abandonTags(dropped: Play[]) {
+        for (let i = 0; i < dropped.length; i++) {
+            let play = dropped[i];
+            if ((play.tag != "") && play.tagEnd) {
+                control.raiseEvent(FLEXFX_TAG_FINISHED_ID, tagValue(play.tag));
+            }
+        }
+    }
+
+    // deactivate any channels that have played everything (or been stopped)
+    // and report when the player has nothing left to wait for (returning -1) 
+    // or else when the next silence ends
+    function retireChannels(): number {
+        let now = control.millis();
+        let wake = -1;
+        for (let i = 0; i < channelList.length; i++) {
+            let channel = channelList[i];
+            if ((channel.silence != null) && (channel.silentUntil <= now)) {
+                finishTag(channel, channel.silence); // that silence is over
+                channel.silence = null;
+            }
+            if (channel.active) {
+                if (channel.stopped) {
+                    channel.active = false; // we were prematurely stopped by the channel's flag
+                } else if ((channel.playList.length == 0) && (channel.silentUntil <= now)) {
+                    channel.active = false;
+                    control.raiseEvent(channel.eventId, PLAYER.ALLPLAYED);
+                } else if ((wake < 0) || (channel.silentUntil < wake)) {
+                    wake = channel.silentUntil;
+                }
+            }
+        }
+        return wake;
+    }
+
+    // in turn, play everything currently on the active channels' play-lists
+    function player(fiber: number) {
         let play = new Play;
-        while ((playList.length > 0) && !playerStopped) {
-            let soundString = "";
-            play = playList.shift();
+        while (retireChannels() > -1) {
+            let channel = nextChannel();
+            if (channel == null) {
+                // every active channel is waiting out a silence, so just wait around... 
+                playerWaiting = true;
+                basic.pause(Math.max(retireChannels() - control.millis(), 1));
+                if (fiber != playerFiber) return; // (meanwhile, a fresh player has taken over)
+                playerWaiting = false;
+                continue;
+            }
+            play = channel.playList.shift();
+            if (play.parts.length == 0) {
+                // a Loop's marker: time to queue its next repetition (behind anything queued since)
+                if (play.loop != null) {
+                    feedLoop(play.loop);
+                }
+                continue;
+            }
             let sound = play.parts[0].getNotes();
             // look out for "silences" that have just one sound-string of "snnn..."
             if (sound.charAt(0) == "s") {
                 let time = parseInt("0" + sound.slice(1).trim());
-                basic.pause(time); // just wait around... 
+                channel.silentUntil = control.millis() + time; // (other channels may play meanwhile)
+                channel.silence = play;
+                startTag(channel, play);
             } else {
-                // flatten the parts[] of sound-strings into a single comma-separated string
-                while (play.parts.length > 0) {
-                    soundString += play.parts.shift().getNotes();
-                    if (play.parts.length > 0) {
-                        soundString += ",";
-                    }
-                }
+                // (keeping the parts, in case we get interrupted and need to replay it)
+                let segments = soundSegments(play);
                 // now play it synchronously (from the player fiber's perspective!)
-                if (soundString.length > 0) {
-                    control.raiseEvent(FLEXFX_ACTIVITY_ID, PLAYER.STARTING);
-                    playerPlaying = true;
-                    music.playSoundEffect(soundString, SoundExpressionPlayMode.UntilDone);
-                    control.raiseEvent(FLEXFX_ACTIVITY_ID, PLAYER.FINISHED);
-                    playerPlaying = false;
+                if (segments.length > 0) {
+                    let started = control.millis();
+                    let resting = (channel.silentUntil > started); // (we're interrupting its silence)
+                    control.raiseEvent(channel.eventId, PLAYER.STARTING);
+                    startTag(channel, play);
+                    channel.playing = true;
+                    soundingPlay = play;
+                    let sounded = 0;
+                    while ((sounded < segments.length) && !play.cutShort) {
+                        music.playSoundEffect(segments[sounded], SoundExpressionPlayMode.UntilDone);
+                        sounded++;
+                    }
+                    if (sounded == segments.length) {
+                        play.cutShort = false; // (any interruption came too late to cut it short)
+                    }
+                    soundingPlay = null;
+                    if (resting) {
+                        // we played within this channel's silence, which must now last that much longer
+                        channel.silentUntil += control.millis() - started;
+                    }
+                    control.raiseEvent(channel.eventId, PLAYER.FINISHED);
+                    finishTag(channel, play);
+                    channel.playing = false;
+                    if (play.cutShort) {
+                        if (play.resume) {
+                            // put it back to be replayed (once the interruption is over)
+                            play.cutShort = false;
+                            queuePlay(channel, play, true);
+                        } else {
+                            // abandon the rest of the interrupted sequence (its Tune or Loop), leaving any other Plays
+                            let dropped = channel.playList.filter(i => i.sequence == play.sequence);
+                            let kept = channel.playList.filter(i => i.sequence != play.sequence);
+                            channel.playList = kept;
+                            abandonTags(dropped);
+                        }
+                    }
                 }
             }
             basic.pause(10); // always cede control briefly to scheduler 
         }
-        if (playList.length == 0) {
-            control.raiseEvent(FLEXFX_ACTIVITY_ID, PLAYER.ALLPLAYED);
-        } // else we were prematurely stopped by the playerStopped global flag
         playerActive = false;
     }
 
@@ -543,9 +2611,12 @@ namespace flexFX {
      * @param pitch  different base-frequency to use (in Hz)
      * @param volumeLimit  peak volume, as a number in the range 0-255
      * @param newDuration  how long (ms) the overall performance will last
+     * @param channel  the play-list channel to use
+     * @param tag  optional label for this Play, as text (use convertToText for a number), reported by "current tag" and used by "on Play started/finished"
+     * @param repeats  how many times to play it (or 0 to keep repeating until cancelled, never waiting)
      */
 
-    //% block="play FlexFX $flexId waiting? $wait||at pitch $pitch|with maximum volume $volumeLimit| lasting (ms) $newDuration"
+    //% block="play FlexFX $flexId waiting? $wait||at pitch $pitch|with maximum volume $volumeLimit| lasting (ms) $newDuration|on channel $channel|tagged $tag|repeated $repeats times"
     //% group="Playing (micro:bit V2)"
     //% inlineInputMode=inline
     //% expandableArgumentMode="enabled"
@@ -555,23 +2626,40 @@ namespace flexFX {
     //% pitch.min=50 pitch.max=2000 pitch.defl=0
     //% volumeLimit.min=0 volumeLimit.max=255 volumeLimit.defl=200
     //% newDuration.min=0 newDuration.max=10000 newDuration.defl=800
+    //% channel.defl="main"
+    //% tag.defl=""
+    //% repeats.min=0 repeats.max=1000 repeats.defl=1
     export function playFlexFX(flexId: string, wait: boolean = true,
-        pitch: number = 0, volumeLimit: number = 0, newDuration: number = 0) {
+        pitch: number = 0, volumeLimit: number = 0, newDuration: number = 0, channel: string = "main", tag: string = "",
+        repeats: number = 1) {
 
         pitch = clamp(0, pitch, 2000);
         volumeLimit = clamp(0, volumeLimit, 255);
         newDuration = clamp(0, newDuration, 10000);
+        repeats = clamp(0, repeats, 1000);
 
         let target: FlexFX = flexFXList.find(i => i.id === flexId);
         if (target == null) {
             target = flexFXList.find(i => i.id === "***"); // "alert" sound
         }
         if (target != null) {
-            // compile and add our Play onto the playList 
-            playList.push(target.makeTunedPlay(pitch, volumeLimit, newDuration));
-            activatePlayer();  // make sure it gets played (unless Stopped)
-            if (wait) {
-                awaitAllFinished(); // make sure it has been played
+            // compile and add our Play onto the channel's playList 
+            let myChannel = getChannel(channel);
+            if (repeats == 1) {
+                let play = target.makeTunedPlay(pitch, volumeLimit, newDuration);
+                play.tag = tag;
+                myChannel.playList.push(play);
+            } else {
+                let loop = new Loop(myChannel, target, null, repeats);
+                loop.pitch = pitch;
+                loop.volumeLimit = volumeLimit;
+                loop.duration = newDuration;
+                loop.tag = tag;
+                feedLoop(loop);
+            }
+            activatePlayer(myChannel);  // make sure it gets played (unless Stopped)
+            if (wait && (repeats > 0)) { // (an endless Loop would never let us go)
+                awaitAllFinished(channel); // make sure it has been played
             }
         }
     }
@@ -622,9 +2710,13 @@ namespace flexFX {
      * @param transpose  semitone steps by which to raise or lower all notes
      * @param volumeLimit  peak volume for every note, in the range 0-255
      * @param tuneDuration  how long (in ms) the overall performance should last
+     * @param channel  the play-list channel to use
+     * @param tag  optional label for this performance, as text (use convertToText for a number), reported by "current tag" and used by "on Play started/finished"
+     * @param repeats  how many times to play it (or 0 to keep repeating until cancelled, never waiting)
+     * @param legato  if true, slurred notes are joined smoothly together
      */
 
-    //% block="play tune $title using FlexFX $flexId waiting? $wait||transposed by (semitones) $transpose|with maximum volume $volumeLimit|performance lasting (ms) $tuneDuration"
+    //% block="play tune $title using FlexFX $flexId waiting? $wait||transposed by (semitones) $transpose|with maximum volume $volumeLimit|performance lasting (ms) $tuneDuration|on channel $channel|tagged $tag|repeated $repeats times|legato? $legato"
     //% group="Playing (micro:bit V2)"
     //% weight=970
     //% inlineInputMode=inline
@@ -635,12 +2727,18 @@ namespace flexFX {
     //% transpose.min=-60 transpose.max=60 transpose.defl=0
     //% volumeLimit.min=0 volumeLimit.max=255 volumeLimit.defl=200
     //% tuneDuration.min=50 tuneDuration.max=300000 tuneDuration.defl=0
+    //% channel.defl="main"
+    //% tag.defl=""
+    //% repeats.min=0 repeats.max=1000 repeats.defl=1
+    //% legato.defl=false
     export function playTune(title: string, flexId: string, wait: boolean = true,
-        transpose: number = 0, volumeLimit: number = 0, tuneDuration: number = 0) {
+        transpose: number = 0, volumeLimit: number = 0, tuneDuration: number = 0, channel: string = "main", tag: string = "",
+        repeats: number = 1, legato: boolean = false) {
 
         transpose = clamp(-60, transpose, 60); // +/- 5 octaves
         volumeLimit = clamp(0, volumeLimit, 255);
         tuneDuration = clamp(0, tuneDuration, 300000); // max 5 mins!
+        repeats = clamp(0, repeats, 1000);
 
         let flex: FlexFX = flexFXList.find(i => i.id === flexId);
         if (flex == null) {
@@ -653,30 +2751,277 @@ namespace flexFX {
         }
 
         if ((flex != null) && (flex != null)) {
-            let myTick = tickMs;  // adopt current default tempo
-            if (tuneDuration != 0) {
-                myTick = tuneDuration / tune.nTicks; // tick-rate needed to achieve tuneDuration
+            let myChannel = getChannel(channel);
+            if (repeats == 1) {
+                queueTune(myChannel, tune, flex, 0, transpose, volumeLimit, tuneDuration, tag, 0, legato);
+            } else {
+                let loop = new Loop(myChannel, flex, tune, repeats);
+                loop.transpose = transpose;
+                loop.volumeLimit = volumeLimit;
+                loop.duration = tuneDuration;
+                loop.tag = tag;
+                loop.legato = legato;
+                feedLoop(loop);
+            }
+            activatePlayer(myChannel);  // make sure it gets played (unless Stopped)
+            if (wait && (repeats > 0)) { // (an endless Loop would never let us go)
+                awaitAllFinished(channel); // make sure it has been played
             }
+        }
+    }
+
+    // where a tick-position falls once every off-beat quaver gets delayed by the current swing
+    function swingTick(tick: number): number {
+        let beat = Math.floor(tick / CROTCHET_TICKS) * CROTCHET_TICKS;
+        let t = tick - beat;
+        let ratio = swingRatio / 100; // (how much of the beat the on-beat quaver takes up)
+        if (t <= QUAVER_TICKS) {
+            return beat + t * 2 * ratio;
+        }
+        return beat + 4 * ratio + (t - QUAVER_TICKS) * 2 * (1 - ratio);
+    }
+
+    // compile a Play for each note of a Tune (from a given step onwards)
+    // (any tag is shared by all its Plays, but only announced as the first starts and the last finishes)
+    // (notes with EKO tempo markings keep their own tempo; the rest use the given bpm, if any)
+    // (in legato mode, runs of slurred notes get merged into single Plays)
+    function compileTune(tune: Tune, flex: FlexFX, fromStep: number, transpose: number, volumeLimit: number,
+        tuneDuration: number, tag: string, bpm: number = 0, legato: boolean = false): Play[] {
+        let plays: Play[] = [];
+        let loudest = volumeLimit;
+        if (loudest == 0) {
+            loudest = flex.peakVolume / 4; // use the FlexFX's own peak (in UI units)
+        }
+        let myBpm = 15000 / tickMs;  // adopt current default tempo...
+        if (tune.bpm > 0) {
+            myBpm = tune.bpm; // ...unless the Tune has its own...
+        }
+        if (bpm > 0) {
+            myBpm = bpm; // ...or we've been told otherwise
+        }
+        let scale = 1;
+        if (tuneDuration != 0) {
+            // stretch (or squash) the whole timeline, tempo changes and all, to fit tuneDuration
+            let natural = 0;
             for (let i = 0; i < tune.notes.length; i++) {
-                let note = tune.notes[i];
-                let ms = note.ticks * myTick;
-                let pitch = note.pitch;
-                if (note.volume == 0) { // if this note is a Rest, play silence
-                    playSilence(ms);
-                } else {
-                    if (transpose != 0) {
-                        // apply transpose to MIDI then convert back to Hz
-                        pitch = midiToHertz(note.midi + transpose);
+                natural += tune.notes[i].lastsMs(myBpm);
+            }
+            if (natural > 0) {
+                scale = tuneDuration / natural;
+            }
+        }
+        fromStep = Math.max(fromStep, 0);
+        let tick = 0; // (where each note falls, so we can tell which ones start a bar)
+        for (let i = 0; i < Math.min(fromStep, tune.notes.length); i++) {
+            tick += tune.notes[i].ticks;
+        }
+        // work out how long each note lasts (ms), after any swing and humanising
+        let dice = new Dice(humaniseSeed);
+        let lengths: number[] = [];
+        let late = 0; // (how late, in ms, the current note starts)
+        let at = tick;
+        for (let i = fromStep; i < tune.notes.length; i++) {
+            let note = tune.notes[i];
+            let ms = note.lastsMs(myBpm) * scale;
+            if ((swingRatio != 50) && (note.ticks > 0)) {
+                ms = (ms * (swingTick(at + note.ticks) - swingTick(at))) / note.ticks;
+            }
+            if (humaniseAmount > 0) {
+                // nudge where the next note starts (so the timing wobbles, but never drifts)
+                let nextLate = (dice.spread() * HUMANISE_MS * humaniseAmount) / 100;
+                ms += nextLate - late;
+                late = nextLate;
+            }
+            lengths.push(ms);
+            at += note.ticks;
+        }
+        let i = fromStep;
+        while (i < tune.notes.length) {
+            let note = tune.notes[i];
+            let last = i; // (the last note to be merged into this Play)
+            let play: Play;
+            if (note.volume == 0) { // if this note is a Rest, play silence
+                play = silentPlay(lengths[i - fromStep]);
+            } else {
+                if (legato) {
+                    // extend the phrase across any following slurred notes (but never into a Rest)
+                    while ((last + 1 < tune.notes.length) && tune.notes[last].slurred
+                        && (tune.notes[last + 1].volume > 0)) {
+                        last++;
                     }
-                    // compile and add our Play onto the playList 
-                    playList.push(flex.makeTunedPlay(pitch, volumeLimit, ms));
                 }
+                let pitches: number[] = [];
+                let volumes: number[] = [];
+                let durations: number[] = [];
+                let glides: boolean[] = [];
+                for (let j = i; j <= last; j++) {
+                    let step = tune.notes[j];
+                    // apply transpose to MIDI then convert back to Hz (in the current tuning)
+                    let pitch = midiToHertz(step.midi + transpose, step.cents);
+                    // scale the note's dynamic level [0..255] to our loudest volume
+                    let volume = (loudest * step.volume) / DYNAMIC_FF;
+                    if (humaniseAmount > 0) {
+                        // put the note slightly out of tune, and slightly louder or softer
+                        pitch *= 2 ** ((dice.spread() * HUMANISE_CENTS * humaniseAmount) / 120000);
+                        volume = clamp(0, volume * (1 + (dice.spread() * HUMANISE_VOLUME * humaniseAmount) / 100), 255);
+                    }
+                    pitches.push(pitch);
+                    volumes.push(volume);
+                    durations.push(lengths[j - fromStep]);
+                    glides.push(step.glides);
+                }
+                if (last > i) {
+                    play = legatoPlay(flex, pitches, volumes, durations, glides);
+                } else {
+                    play = flex.makeTunedPlay(pitches[0], volumes[0], durations[0]);
+                }
+            }
+            play.barStart = ((tick % SEMIBREVE_TICKS) == 0); // (assuming 4/4 time)
+            for (let j = i; j <= last; j++) {
+                tick += tune.notes[j].ticks;
+            }
+            plays.push(play);
+            i = last + 1;
+        }
+        for (let i = 0; i < plays.length; i++) {
+            plays[i].tag = tag;
+            plays[i].tagStart = (i == 0);
+            plays[i].tagEnd = (i == plays.length - 1);
+            plays[i].sequence = plays[0].sequence; // (so they all belong to this performance of the Tune)
+        }
+        return plays;
+    }
+
+    // the durations of some of a FlexFX's parts, squeezed (if need be) to fit within the given room
+    // (any that would then be too short to play come out as 0, to be left out)
+    function fittedDurations(flex: FlexFX, from: number, to: number, room: number): number[] {
+        let total = 0;
+        for (let k = from; k < to; k++) {
+            total += flex.durationProfile[k];
+        }
+        let scale = (total > room) ? room / total : 1;
+        let fitted: number[] = [];
+        for (let k = from; k < to; k++) {
+            let d = flex.durationProfile[k] * scale;
+            fitted.push((d < 10) ? 0 : d);
+        }
+        return fitted;
+    }
+
+    // build a single Play for a phrase of slurred notes, as a one-off FlexFX whose parts carry the 
+    // pitch from note to note, in the "voice" (wave-shape, attack & effect) of the given FlexFX's longest audible part
+    // (its parts before and after that voice still shape the start of the first note and the end of the last one)
+    function legatoPlay(flex: FlexFX, pitches: number[], volumes: number[], durations: number[], glides: boolean[]): Play {
+        let voice = 0;
+        for (let k = 1; k < flex.nParts; k++) {
+            if ((flex.waveProfile[k] != Wave.Silence)
+                && ((flex.waveProfile[voice] == Wave.Silence) || (flex.durationProfile[k] > flex.durationProfile[voice]))) {
+                voice = k;
+            }
+        }
+        let wave = flex.waveProfile[voice];
+        let attack = flex.attackProfile[voice];
+        let effect = flex.effectProfile[voice];
+        let last = pitches.length - 1;
+        // the instrument's parts before its voice fit into the first half of the first note...
+        let lead = fittedDurations(flex, 0, voice, durations[0] / 2);
+        // ...and those after it into the second half of the last note
+        let tail = fittedDurations(flex, voice + 1, flex.nParts, durations[last] / 2);
+        let pitchBase = flex.pitchProfile[voice];
+        let phrase = new FlexFX("");
+        if (voice == 0) {
+            phrase.startWith(pitches[0], volumes[0]);
+        } else {
+            phrase.startWith((pitches[0] * flex.pitchProfile[0]) / pitchBase,
+                (volumes[0] * flex.volumeProfile[0]) / flex.peakVolume);
+        }
+        let first = 0; // (how much of the first note the lead-in takes up)
+        for (let k = 0; k < voice; k++) {
+            if (lead[k] > 0) {
+                let endPitch = (pitches[0] * flex.pitchProfile[k + 1]) / pitchBase;
+                let endVolume = (k + 1 == voice) ? volumes[0] : (volumes[0] * flex.volumeProfile[k + 1]) / flex.peakVolume;
+                phrase.addPart(flex.waveProfile[k], flex.attackProfile[k], flex.effectProfile[k], endPitch, endVolume, lead[k]);
+                first += lead[k];
+            }
+        }
+        let final = 0; // (and how much of the last note the tail takes up)
+        for (let k = 0; k < tail.length; k++) {
+            final += tail[k];
+        }
+        let here = pitches[0]; // (where the pitch has got to)
+        for (let j = 0; j < pitches.length; j++) {
+            let d = durations[j];
+            if (j == 0) d -= first;
+            if (j == last) d -= final;
+            if (here != pitches[j]) {
+                // a slur: step quickly across to the new note (if there's room)
+                let slur = Math.min(SLUR_MS, d / 2);
+                if (slur >= 10) {
+                    phrase.addPart(wave, Attack.Even, effect, pitches[j], volumes[j], slur);
+                    d -= slur;
+                }
+            }
+            if (glides[j] && (j < last)) {
+                if (d >= 20) {
+                    // hold the note for half its length, then slide into the next one
+                    phrase.addPart(wave, attack, effect, pitches[j], volumes[j], d / 2);
+                    phrase.addPart(wave, Attack.Even, effect, pitches[j + 1], volumes[j + 1], d / 2);
+                } else {
+                    phrase.addPart(wave, Attack.Even, effect, pitches[j + 1], volumes[j + 1], d); // (just slide)
+                }
+                here = pitches[j + 1];
+            } else {
+                phrase.addPart(wave, attack, effect, pitches[j], volumes[j], d);
+                here = pitches[j];
             }
-            activatePlayer();  // make sure it gets played (unless Stopped)
-            if (wait) {
-                awaitAllFinished(); // make sure it has been played
+        }
+        // finish off with the instrument's own tail (relative to where its voice would have ended)
+        let tailBase = flex.pitchProfile[voice + 1];
+        for (let k = 0; k < tail.length; k++) {
+            let part = voice + 1 + k;
+            if (tail[k] > 0) {
+                phrase.addPart(flex.waveProfile[part], flex.attackProfile[part], flex.effectProfile[part],
+                    (pitches[last] * flex.pitchProfile[part + 1]) / tailBase,
+                    (volumes[last] * flex.volumeProfile[part + 1]) / flex.peakVolume, tail[k]);
             }
         }
+        return phrase.makeTunedPlay(0, 0, 0);
+    }
+
+    // compile and add a Play onto a channel's playList for each note of a Tune (from a given step onwards)
+    function queueTune(channel: PlayChannel, tune: Tune, flex: FlexFX, fromStep: number, transpose: number,
+        volumeLimit: number, tuneDuration: number, tag: string = "", bpm: number = 0, legato: boolean = false) {
+        let plays = compileTune(tune, flex, fromStep, transpose, volumeLimit, tuneDuration, tag, bpm, legato);
+        for (let i = 0; i < plays.length; i++) {
+            channel.playList.push(plays[i]);
+        }
+    }
+
+    // queue the next repetition of a Loop (at the back of its channel's playList),
+    // followed by a marker that will prompt the player to queue the one after (if any)
+    function feedLoop(loop: Loop) {
+        let plays: Play[] = [];
+        if (loop.tune != null) {
+            plays = compileTune(loop.tune, loop.flex, 0, loop.transpose, loop.volumeLimit, loop.duration, loop.tag, 0, loop.legato);
+        } else {
+            let play = loop.flex.makeTunedPlay(loop.pitch, loop.volumeLimit, loop.duration);
+            play.tag = loop.tag;
+            plays.push(play);
+        }
+        loop.done++;
+        if ((loop.repeats == 0) || (loop.done < loop.repeats)) {
+            plays.push(new Play); // an empty Play marks where the next repetition is due
+        }
+        if (loop.sequence == 0) {
+            loop.sequence = plays[0].sequence; // (every repetition belongs to the same sequence)
+        }
+        for (let i = 0; i < plays.length; i++) {
+            plays[i].loop = loop;
+            plays[i].sequence = loop.sequence;
+        }
+        for (let i = 0; i < plays.length; i++) {
+            queuePlay(loop.channel, plays[i]);
+        }
     }
 
     /**
@@ -719,6 +3064,68 @@ namespace flexFX {
         tickMs = 15000 / bpm; // = (60*1000) / (4*bpm)
     }
 
+    /**
+     * set how much to swing future Tunes, by delaying every off-beat quaver
+     * @param percent  how much of each beat goes to its first quaver (50 is straight; 67 is a triplet swing)
+     */
+    //% block="set swing to $percent percent"
+    //% group="Playing (micro:bit V2)"
+    //% weight=949
+    //% advanced=true
+    //% percent.min=50 percent.max=75 percent.defl=67
+    export function setSwing(percent: number) {  // CHANGES GLOBAL SETTING
+        swingRatio = clamp(50, percent, 75);
+    }
+
+    /**
+     * make future Tunes sound less mechanical, with small random variations in the timing, 
+     * tuning and loudness of each note (the same seed always gives the same variations)
+     * @param amount  how much variation, from 0 (none) to 100
+     * @param seed  any number, choosing which variations to make
+     */
+    //% block="humanise tunes by $amount percent||using seed $seed"
+    //% group="Playing (micro:bit V2)"
+    //% weight=948
+    //% advanced=true
+    //% amount.min=0 amount.max=100 amount.defl=50
+    //% seed.defl=0
+    export function setHumanise(amount: number, seed: number = 0) {  // CHANGES GLOBAL SETTING
+        humaniseAmount = clamp(0, amount, 100);
+        humaniseSeed = seed;
+    }
+
+    /**
+     * choose the tuning system used to work out the pitch of every note in future Tunes
+     * (tunings other than equal temperament sound sweetest in, or near, the key they are built on)
+     * @param tuning  the tuning system to use
+     * @param key  the key-note the tuning is built on (like "C", "G" or "Bb")
+     */
+    //% block="tune notes using $tuning||built on key-note $key"
+    //% group="Playing (micro:bit V2)"
+    //% weight=947
+    //% advanced=true
+    //% tuning.defl=Tuning.Equal
+    //% key.defl="C"
+    export function setTuning(tuning: Tuning, key: string = "C") {  // CHANGES GLOBAL SETTING
+        tuningCents = TUNING_CENTS[clamp(0, tuning, TUNING_CENTS.length - 1)];
+        let keyNote = new KeySignature(key); // (borrowing the key-signature parser)
+        tuningKey = keyNote.valid ? keyNote.tonic : 0;
+    }
+
+    /**
+     * set the concert pitch: the frequency of the A above middle-C, which every other note is tuned from
+     * (the modern standard is 440 Hz; baroque music is often played at 415 Hz)
+     * @param hertz  the frequency of A4 in Hz, from 380 to 480
+     */
+    //% block="set concert pitch to A = $hertz Hz"
+    //% group="Playing (micro:bit V2)"
+    //% weight=946
+    //% advanced=true
+    //% hertz.min=380 hertz.max=480 hertz.defl=440
+    export function setConcertPitch(hertz: number) {  // CHANGES GLOBAL SETTING
+        concertPitch = clamp(380, hertz, 480);
+    }
+
     /**
      * compose a Tune using EKO-notation (Extent-Key-Octave).
      * @param title  the name of the Tune to be created or replaced
@@ -731,10 +3138,17 @@ namespace flexFX {
     //% title.defl="beethoven5"
     //% score.defl="2R 2G4 2G4 2G4 8Eb4"
     export function composeTune(title: string, score: string) {
-        // first delete any existing definition having this title (works even when missing!)
-        tuneList.splice(tuneList.indexOf(tuneList.find(i => i.title === title), 1), 1);
-        // add this new definition
-        tuneList.push(new Tune(title, score));
+        let tune = new Tune(title, score);
+        lastChecked = tune; // (keep its diagnostics for reporting)
+        if (strictScores && (tune.nFaults > 0)) {
+            // reject it, leaving any existing Tune with this title unchanged
+            control.raiseEvent(FLEXFX_ACTIVITY_ID, COMPOSER.BADSCORE);
+        } else {
+            // first delete any existing definition having this title (works even when missing!)
+            tuneList.splice(tuneList.indexOf(tuneList.find(i => i.title === title), 1), 1);
+            // add this new definition
+            tuneList.push(tune);
+        }
     }
 
     /**
@@ -754,156 +3168,944 @@ namespace flexFX {
         if (target == null) {
             // OOPS! trying to extend a non-existent Tune: 
             // rather than fail, just create a new one
-            tuneList.push(new Tune(title, score));
+            composeTune(title, score);
+        } else {
+            lastChecked = target;
+            if (!target.extend(score, strictScores)) {
+                control.raiseEvent(FLEXFX_ACTIVITY_ID, COMPOSER.BADSCORE);
+            }
+        }
+    }
+
+    /**
+     * check a score of EKO-notation for mistakes, without composing anything.
+     * (returns how many of its notes are malformed)
+     * @param score  a text-string listing the notes to be checked
+     */
+
+    //% block="count mistakes in notes $score"
+    //% group="Playing (micro:bit V2)"
+    //% weight=925
+    //% advanced=true
+    //% score.defl="2R 2G4 2G4 2G4 8Eb4"
+    export function checkScore(score: string): number {
+        lastChecked = new Tune("", score);
+        return lastChecked.nFaults;
+    }
+
+    /**
+     * which item in the last score checked (or composed) was the first to be malformed
+     * (counting from 0; or -1 if there were no mistakes)
+     */
+    //% block="position of first mistake in last score"
+    //% group="Playing (micro:bit V2)"
+    //% weight=924
+    //% advanced=true
+    export function scoreMistakeItem(): number {
+        if (lastChecked == null) return -1;
+        return lastChecked.faultToken;
+    }
+
+    /**
+     * how many characters into the last score checked (or composed) its first mistake was found
+     * (counting from 0; or -1 if there were no mistakes)
+     */
+    //% block="character-offset of first mistake in last score"
+    //% group="Playing (micro:bit V2)"
+    //% weight=923
+    //% advanced=true
+    export function scoreMistakeOffset(): number {
+        if (lastChecked == null) return -1;
+        return lastChecked.faultOffset;
+    }
+
+    /**
+     * describe what was wrong with the first mistake in the last score checked (or composed)
+     */
+    //% block="reason for first mistake in last score"
+    //% group="Playing (micro:bit V2)"
+    //% weight=922
+    //% advanced=true
+    export function scoreMistakeReason(): string {
+        if (lastChecked == null) return describeFault(EKOFault.None);
+        return describeFault(lastChecked.fault);
+    }
+
+    /**
+     * choose whether scores with mistakes are rejected by composeTune and extendTune
+     * (rather than having an error-tone substituted for each malformed note)
+     * @param strict  if true, reject any score containing mistakes
+     */
+    //% block="reject scores with mistakes $strict"
+    //% group="Playing (micro:bit V2)"
+    //% weight=921
+    //% advanced=true
+    //% strict.defl=true
+    export function setStrictScores(strict: boolean) {  // CHANGES GLOBAL SETTING
+        strictScores = strict;
+    }
+
+    /**
+     * run some code whenever a score is rejected for having mistakes
+     * @param handler  the code to run
+     */
+    //% block="on score rejected"
+    //% group="Playing (micro:bit V2)"
+    //% weight=920
+    //% advanced=true
+    export function onScoreRejected(handler: () => void) {
+        control.onEvent(FLEXFX_ACTIVITY_ID, COMPOSER.BADSCORE, handler);
+    }
+
+    /**
+     * make up a new Tune, wandering around a scale
+     * (the same seed always makes up the same Tune)
+     * @param title  the name of the Tune to be created
+     * @param seed  any number, choosing which Tune gets made up
+     * @param scale  the scale (or mode) to use
+     * @param root  the key-note of the scale, as an EKO Key and Octave (like "C4")
+     * @param bars  how many bars (of four beats) to make up
+     * @param busyness  how busy the rhythm is, from 1 (mostly long notes) to 4 (mostly short notes)
+     * @param stepwise  how often (as a percentage) to move to a neighbouring note, rather than leap
+     * @param endOnTonic  if true, the Tune finishes on the key-note
+     */
+
+    //% block="make up tune $title from seed $seed||in $scale scale|with key-note $root|lasting $bars bars|busyness $busyness|step-wise moves (percent) $stepwise|ending on the key-note? $endOnTonic"
+    //% group="Playing (micro:bit V2)"
+    //% weight=917
+    //% advanced=true
+    //% inlineInputMode=inline
+    //% expandableArgumentMode="enabled"
+    //% title.defl="myTune"
+    //% seed.defl=1234
+    //% scale.defl=Scale.Major
+    //% root.defl="C4"
+    //% bars.min=1 bars.max=32 bars.defl=4
+    //% busyness.min=1 busyness.max=4 busyness.defl=2
+    //% stepwise.min=0 stepwise.max=100 stepwise.defl=70
+    //% endOnTonic.defl=true
+    export function makeUpTune(title: string, seed: number, scale: Scale = Scale.Major, root: string = "C4",
+        bars: number = 4, busyness: number = 2, stepwise: number = 70, endOnTonic: boolean = true) {
+        let key = new TuneStep("1" + root); // (borrowing the EKO parser)
+        let midi = ((key.fault == EKOFault.None) && (key.midi > 0)) ? key.midi : 60; // (else use middle-C)
+        let maker = new MelodyMaker(SCALE_STEPS[clamp(0, scale, SCALE_STEPS.length - 1)], midi,
+            clamp(1, bars, 32), clamp(1, busyness, 4), clamp(0, stepwise, 100), endOnTonic, Math.round(seed));
+        composeTune(title, ekoScore(maker.ticks, maker.midis));
+    }
+
+    /**
+     * create (or extend) a Tune by arpeggiating a sequence of chords
+     * @param title  the name of the Tune to be created (or extended)
+     * @param chords  space-separated chord-symbols (like "C Am F G7"), or "R" for a Rest
+     * @param pattern  "up", "down", "updown", "random", or a list of chord-note indexes (like "0,2,1,2")
+     * @param extent  length of each note (in quarter-beat ticks)
+     * @param octave  the octave of each chord's root (where 4 holds middle-C)
+     * @param octaves  how many octaves the arpeggio spans
+     * @param append  if true, the notes are added to the end of any existing Tune
+     */
+
+    //% block="arpeggiate chords $chords into tune $title||with pattern $pattern|notes of extent $extent|from octave $octave|across $octaves octaves|appending? $append"
+    //% group="Playing (micro:bit V2)"
+    //% weight=918
+    //% advanced=true
+    //% inlineInputMode=inline
+    //% expandableArgumentMode="enabled"
+    //% title.defl="strum"
+    //% chords.defl="C Am F G7"
+    //% pattern.defl="up"
+    //% extent.min=1 extent.max=64 extent.defl=2
+    //% octave.min=1 octave.max=8 octave.defl=4
+    //% octaves.min=1 octaves.max=3 octaves.defl=1
+    //% append.defl=false
+    export function arpeggiate(title: string, chords: string, pattern: string = "up", extent: number = 2,
+        octave: number = 4, octaves: number = 1, append: boolean = false) {
+        extent = clamp(1, extent, 64);
+        octave = clamp(1, octave, 8);
+        octaves = clamp(1, octaves, 3);
+        let specs: string[] = [];
+        let symbols = chords.split(" ");
+        let unknown = 0; // how many chord-symbols we couldn't make sense of...
+        let unknownItem = -1; // ...which item the first one was...
+        let unknownOffset = -1; // ...and where it started
+        let offset = 0;
+        for (let i = 0; i < symbols.length; i++) {
+            let at = offset;
+            offset += symbols[i].length + 1;
+            let symbol = symbols[i].trim();
+            if (symbol.length == 0) continue;
+            if (symbol == "R") {
+                // rest for as long as a plain triad would have taken
+                specs.push(ekoNote(extent * arpeggio([0, 4, 7], pattern, octaves).length, 0));
+                continue;
+            }
+            let chord = chordNotes(symbol, octave);
+            if (chord.length == 0) {
+                // an unknown chord gets skipped (and reported as a mistake)
+                if (unknown == 0) {
+                    unknownItem = i;
+                    unknownOffset = at;
+                }
+                unknown++;
+            } else {
+                let fifths = 0; // (spell black keys to suit the root)
+                if (symbol.charAt(1) == "#") fifths = 1;
+                if (symbol.charAt(1) == "b") fifths = -1;
+                let notes = arpeggio(chord, pattern, octaves);
+                for (let j = 0; j < notes.length; j++) {
+                    specs.push(ekoNote(extent, notes[j], fifths));
+                }
+            }
+        }
+        if ((unknown > 0) && (strictScores || (specs.length == 0))) {
+            // reject it, leaving any existing Tune with this title unchanged
+            lastChecked = new Tune(title, ""); // (just to carry the diagnostics)
+            control.raiseEvent(FLEXFX_ACTIVITY_ID, COMPOSER.BADSCORE);
+        } else if (append) {
+            extendTune(title, specs.join(" "));
         } else {
-            target.extend(score);
+            composeTune(title, specs.join(" "));
+        }
+        if (unknown > 0) {
+            // report the unknown chords, as for mistakes in a score
+            lastChecked.nFaults = unknown;
+            lastChecked.fault = EKOFault.BadChord;
+            lastChecked.faultToken = unknownItem;
+            lastChecked.faultOffset = unknownOffset;
+        }
+    }
+
+    /**
+     * create a Tune by importing a melody written in ABC-notation
+     * @param title  the name of the Tune to be created or replaced (if empty, its T: field is used)
+     * @param abc  the ABC text (header fields and tune-body on separate lines, or fields given inline like "[K:Em]")
+     */
+
+    //% block="import tune $title from ABC-notation $abc"
+    //% group="Playing (micro:bit V2)"
+    //% weight=915
+    //% advanced=true
+    //% title.defl="cooleys"
+    //% abc.defl="[L:1/8][K:Em]|:D2|EBBA B2 EB|B2 AB dBAG:|"
+    export function importABCTune(title: string, abc: string) {
+        let reader = new ABCReader(abc);
+        if (title == "") {
+            title = reader.title; // (adopt the T: field instead)
+        }
+        composeTune(title, reader.toEKO());
+        let tune: Tune = tuneList.find(i => i.title === title);
+        if (tune != null) {
+            tune.bpm = reader.bpm;
+        }
+    }
+
+    /**
+     * create a Tune from one track (and channel) of a Standard MIDI File
+     * @param title  the name of the Tune to be created or replaced
+     * @param data  the contents of the MIDI file
+     * @param track  which track to use (counting from 0)
+     * @param channel  which MIDI channel [1-16] to use (or 0 for any)
+     * @param useTempo  if true, the Tune adopts the file's tempo
+     */
+    export function importMidiTune(title: string, data: Buffer, track: number = 0,
+        channel: number = 0, useTempo: boolean = true) {
+        let reader = new MidiReader(data, track, clamp(0, channel, 16));
+        composeTune(title, reader.toEKO());
+        let tune: Tune = tuneList.find(i => i.title === title);
+        if (tune != null) {
+            // each note's velocity sets its volume (unless we ended up with the error-Tune instead)
+            if (tune.notes.length == reader.volumes.length) {
+                for (let i = 0; i < tune.notes.length; i++) {
+                    if (tune.notes[i].volume > 0) {
+                        tune.notes[i].volume = reader.volumes[i];
+                    }
+                }
+            }
+            if (useTempo) {
+                tune.bpm = reader.bpm;
+            }
+        }
+    }
+
+    /**
+     * create a Tune from one track (and channel) of a Standard MIDI File, given as hexadecimal text
+     * @param title  the name of the Tune to be created or replaced
+     * @param hex  the contents of the MIDI file, as hexadecimal digits
+     * @param track  which track to use (counting from 0)
+     * @param channel  which MIDI channel [1-16] to use (or 0 for any)
+     * @param useTempo  if true, the Tune adopts the file's tempo
+     */
+
+    //% block="import tune $title from MIDI file (hex) $hex||track $track|channel $channel|using its tempo? $useTempo"
+    //% group="Playing (micro:bit V2)"
+    //% weight=914
+    //% advanced=true
+    //% inlineInputMode=inline
+    //% expandableArgumentMode="enabled"
+    //% title.defl="midiTune"
+    //% track.min=0 track.max=15 track.defl=0
+    //% channel.min=0 channel.max=16 channel.defl=0
+    //% useTempo.defl=true
+    export function importMidiHex(title: string, hex: string, track: number = 0,
+        channel: number = 0, useTempo: boolean = true) {
+        importMidiTune(title, Buffer.fromHex(hex), track, channel, useTempo);
+    }
+
+    /**
+     * create a Tune from an RTTTL ringtone, like "name:d=4,o=5,b=100:8e6,8d6,p,c#"
+     * (returns the ringtone's name, which becomes the title of the new Tune)
+     * @param text  the RTTTL ringtone
+     */
+
+    //% block="import tune from RTTTL ringtone $text"
+    //% group="Playing (micro:bit V2)"
+    //% weight=913
+    //% advanced=true
+    //% text.defl="scale:d=8,o=5,b=120:c,d,e,f,g,a,b,4c6"
+    export function importRTTTL(text: string): string {
+        let reader = new RTTTLReader(text);
+        composeTune(reader.title, reader.toEKO());
+        let tune: Tune = tuneList.find(i => i.title === reader.title);
+        if (tune != null) {
+            tune.bpm = reader.bpm;
+        }
+        return reader.title;
+    }
+
+    /**
+     * express a Tune as an RTTTL ringtone, to share with other buzzer projects
+     * (dynamics are lost, and awkward note-lengths get split into several notes)
+     * @param title  the name of the Tune to be exported
+     */
+
+    //% block="RTTTL ringtone of tune $title"
+    //% group="Playing (micro:bit V2)"
+    //% weight=912
+    //% advanced=true
+    //% title.defl="birthday"
+    export function exportRTTTL(title: string): string {
+        let tune: Tune = tuneList.find(i => i.title === title);
+        if (tune == null) return "";
+        let bpm = (tune.bpm > 0) ? tune.bpm : 15000 / tickMs;
+        let notes: string[] = [];
+        for (let i = 0; i < tune.notes.length; i++) {
+            let note = tune.notes[i];
+            notes.push(rtttlNote(note.ticks, (note.volume > 0) ? note.midi : 0));
+        }
+        return title + ":d=4,o=5,b=" + convertToText(Math.round(bpm)) + ":" + notes.join(",");
+    }
+
+    /**
+     * write out a Tune as a score in EKO-notation (Extent-Key-Octave)
+     * (returns an empty string if there is no such Tune)
+     * @param title  the name of the Tune to be written out
+     */
+
+    //% block="EKO score of tune $title"
+    //% group="Playing (micro:bit V2)"
+    //% weight=911
+    //% advanced=true
+    //% title.defl="birthday"
+    export function tuneToEKO(title: string): string {
+        let tune: Tune = tuneList.find(i => i.title === title);
+        if (tune == null) return "";
+        let midis: number[] = [];
+        for (let i = 0; i < tune.notes.length; i++) {
+            midis.push(tune.notes[i].midi);
         }
+        return tuneScore(tune, midis, tune.key);
+    }
+
+    /**
+     * create a new Tune by moving an existing one into another key (or mode),
+     * shifting each note by scale-degree rather than by a fixed number of semitones
+     * (if the Tune has no key signature, its key is guessed from its notes, as a major key)
+     * @param title  the name of the Tune to be moved
+     * @param key  the key to move it into (like "G", "Bb", "F#m" or "Ddor")
+     * @param newTitle  the name of the new Tune to be created (or replaced)
+     */
+
+    //% block="move tune $title into key $key as new tune $newTitle"
+    //% group="Playing (micro:bit V2)"
+    //% weight=910
+    //% advanced=true
+    //% title.defl="birthday"
+    //% key.defl="G"
+    //% newTitle.defl="myTune"
+    export function transposeToKey(title: string, key: string, newTitle: string) {
+        let tune: Tune = tuneList.find(i => i.title === title);
+        if (tune == null) return;
+        let from = keyOf(tune);
+        let to = new KeySignature(key);
+        if (!to.valid) to = from; // (so just copying it unchanged)
+        copyTune(tune, movedMidis(tune, from, to), to, newTitle);
     }
 
+    /**
+     * create a new Tune by converting an existing one between major and minor,
+     * keeping its key-note but flattening (or sharpening) its 3rd, 6th and 7th scale-degrees
+     * (if the Tune has no key signature, its key is guessed from its notes, as a major key)
+     * @param title  the name of the Tune to be converted
+     * @param minor  if true, convert it into the minor mode; else into the major
+     * @param newTitle  the name of the new Tune to be created (or replaced)
+     */
+
+    //% block="convert tune $title to minor? $minor as new tune $newTitle"
+    //% group="Playing (micro:bit V2)"
+    //% weight=909
+    //% advanced=true
+    //% title.defl="birthday"
+    //% minor.defl=true
+    //% newTitle.defl="myTune"
+    export function changeMode(title: string, minor: boolean, newTitle: string) {
+        let tune: Tune = tuneList.find(i => i.title === title);
+        if (tune == null) return;
+        let from = keyOf(tune);
+        let to = new KeySignature(from.root + (minor ? "m" : ""));
+        copyTune(tune, movedMidis(tune, from, to), to, newTitle);
+    }
 
     // ---- UI BLOCKS: PLAY-LIST ----
 
 
+    /**
+     * queue an urgent FlexFX that jumps ahead of less urgent Plays,
+     * optionally interrupting whatever is sounding right now
+     * @param flexId  the identifier of the FlexFX to be played
+     * @param priority  how urgent it is (ordinary Plays have priority 0)
+     * @param interrupt  if true, any less urgent Play currently sounding on the same channel is cut short
+     * @param resume  if true, an interrupted Play is replayed afterwards; else the rest of its sequence is abandoned
+     * @param pitch  different base-frequency to use (in Hz)
+     * @param volumeLimit  peak volume, as a number in the range 0-255
+     * @param newDuration  how long (ms) the overall performance will last
+     * @param channel  the play-list channel to use
+     * @param tag  optional label for this Play, as text (use convertToText for a number)
+     */
+
+    //% block="play FlexFX $flexId urgently with priority $priority interrupting? $interrupt then resuming? $resume||at pitch $pitch|with maximum volume $volumeLimit| lasting (ms) $newDuration|on channel $channel|tagged $tag"
+    //% group="Play-list (micro:bit V2)"
+    //% inlineInputMode=inline
+    //% expandableArgumentMode="enabled"
+    //% weight=895
+    //% advanced=true
+    //% flexId.defl="uhoh"
+    //% priority.min=1 priority.max=9 priority.defl=5
+    //% interrupt.defl=true
+    //% resume.defl=true
+    //% pitch.min=50 pitch.max=2000 pitch.defl=0
+    //% volumeLimit.min=0 volumeLimit.max=255 volumeLimit.defl=200
+    //% newDuration.min=0 newDuration.max=10000 newDuration.defl=800
+    //% channel.defl="main"
+    //% tag.defl=""
+    export function playFlexFXUrgently(flexId: string, priority: number = 5, interrupt: boolean = true, resume: boolean = true,
+        pitch: number = 0, volumeLimit: number = 0, newDuration: number = 0, channel: string = "main", tag: string = "") {
+
+        priority = clamp(0, priority, 9);
+        pitch = clamp(0, pitch, 2000);
+        volumeLimit = clamp(0, volumeLimit, 255);
+        newDuration = clamp(0, newDuration, 10000);
+
+        let target: FlexFX = flexFXList.find(i => i.id === flexId);
+        if (target == null) {
+            target = flexFXList.find(i => i.id === "***"); // "alert" sound
+        }
+        if (target != null) {
+            let myChannel = getChannel(channel);
+            let play = target.makeTunedPlay(pitch, volumeLimit, newDuration);
+            play.priority = priority;
+            play.tag = tag;
+            queuePlay(myChannel, play);
+            if (interrupt) {
+                myChannel.stopped = false;
+                let silence = myChannel.silence;
+                if ((silence != null) && (silence.priority < priority)) {
+                    silence.cutShort = true; // we'll play within any silence on our channel (which then gets extended)
+                }
+                let victim = soundingPlay; // (but only if it's from our own channel)
+                if (myChannel.playing && (victim != null) && (victim.priority < priority)) {
+                    victim.cutShort = true; // (the player will move on to us once its current segment is done)
+                    victim.resume = resume;
+                }
+            }
+            activatePlayer(myChannel);  // make sure it gets played (unless Stopped)
+        }
+    }
+
     /**
      * await start of next FlexFX on the play-list (unless none)
+     * @param channel  the play-list channel to watch
      */
-    //% block="wait until next FlexFX starts"
+    //% block="wait until next FlexFX starts||on channel $channel"
     //% group="Play-list (micro:bit V2)"
     //% weight=890
     //% advanced=true
-    export function awaitPlayStart() {
-        if (playList.length > 0) {
-            playerStopped = false; // in case it was
-            activatePlayer(); // it case it wasn't
-            control.waitForEvent(FLEXFX_ACTIVITY_ID, PLAYER.STARTING);
+    //% channel.defl="main"
+    export function awaitPlayStart(channel: string = "main") {
+        let myChannel = getChannel(channel);
+        if (myChannel.playList.length > 0) {
+            myChannel.stopped = false; // in case it was
+            activatePlayer(myChannel); // it case it wasn't
+            control.waitForEvent(myChannel.eventId, PLAYER.STARTING);
         } // else nothing to wait for
     }
 
     /**
      * await completion of FlexFX currently playing
+     * @param channel  the play-list channel to watch
      */
-    //% block="wait until current FlexFX finishes (unless none)"
+    //% block="wait until current FlexFX finishes (unless none)||on channel $channel"
     //% group="Play-list (micro:bit V2)"
     //% weight=880
     //% advanced=true
-    export function awaitPlayFinish() {
-        if (playerPlaying) {
-            control.waitForEvent(FLEXFX_ACTIVITY_ID, PLAYER.FINISHED);
+    //% channel.defl="main"
+    export function awaitPlayFinish(channel: string = "main") {
+        let myChannel = getChannel(channel);
+        if (myChannel.playing) {
+            control.waitForEvent(myChannel.eventId, PLAYER.FINISHED);
         } // else nothing to wait for
     }
 
     /**
      * await completion of everything on the play-list
+     * @param channel  the play-list channel to watch
      */
-    //% block="wait until everything played"
+    //% block="wait until everything played||on channel $channel"
     //% group="Play-list (micro:bit V2)"
     //% weight=870
     //% advanced=true
-    export function awaitAllFinished() {
-        if (playList.length > 0) {
-            playerStopped = false; // in case it was
-            activatePlayer(); // in case it wasn't
-            control.waitForEvent(FLEXFX_ACTIVITY_ID, PLAYER.ALLPLAYED);
+    //% channel.defl="main"
+    export function awaitAllFinished(channel: string = "main") {
+        let myChannel = getChannel(channel);
+        if ((myChannel.playList.length > 0) || (myChannel.silentUntil > control.millis())) {
+            myChannel.stopped = false; // in case it was
+            activatePlayer(myChannel); // in case it wasn't
+            control.waitForEvent(myChannel.eventId, PLAYER.ALLPLAYED);
         } // else nothing to wait for
     }
 
+    // build the special-case Play for a silence, holding a sound-string of format "snnn.." 
+    // so "s2500" adds a silence of 2.5 sec
+    function silentPlay(ms: number): Play {
+        let play = new Play;
+        play.parts.push(new SoundExpression("s" + convertToText(Math.floor(ms))));
+        return play;
+    }
+
     /**
      * add a silent pause to the play-list
      * @param ms  length of pause (in millisecs)
+     * @param channel  the play-list channel to use
+     * @param tag  optional label for this pause, as text (use convertToText for a number)
      */
-    //% block="add a pause of $ms ms next in the play-list"
+    //% block="add a pause of $ms ms next in the play-list||on channel $channel|tagged $tag"
     //% group="Play-list (micro:bit V2)"
     //% weight=860
     //% advanced=true
     //% ms.defl=500
-    export function playSilence(ms: number) {
-        // adds a special-case sound-string of format "snnn.." 
-        // so "s2500" adds a silence of 2.5 sec
+    //% channel.defl="main"
+    //% tag.defl=""
+    export function playSilence(ms: number, channel: string = "main", tag: string = "") {
         ms = clamp(0, ms, 60000);
-        let play = new Play;
-        play.parts.push(new SoundExpression("s" + convertToText(Math.floor(ms))));
-        playList.push(play);
-        activatePlayer();  // make sure it gets played (unless Stopped)
+        let myChannel = getChannel(channel);
+        let play = silentPlay(ms);
+        play.tag = tag;
+        myChannel.playList.push(play);
+        activatePlayer(myChannel);  // make sure it gets played (unless Stopped)
     }
 
     /**
      * check how many Plays are waiting
      * (returns length of the play-list)
+     * @param channel  the play-list channel to check
      */
-    //% block="length of play-list"
+    //% block="length of play-list||on channel $channel"
     //% group="Play-list (micro:bit V2)"
     //% weight=850
     //% advanced=true
-    export function waitingToPlay(): number {
-        return playList.length;
+    //% channel.defl="main"
+    export function waitingToPlay(channel: string = "main"): number {
+        return getChannel(channel).playList.length;
     }
 
     /**
      * suspend background playing from the play-list
+     * @param channel  the play-list channel to pause
      */
-    //% block="pause play-list"
+    //% block="pause play-list||on channel $channel"
     //% group="Play-list (micro:bit V2)"
     //% weight=840
     //% advanced=true
-    export function stopPlaying() {
-        playerStopped = true;
+    //% channel.defl="main"
+    export function stopPlaying(channel: string = "main") {
+        getChannel(channel).stopped = true;
     }
 
     /**
      * resume background playing from the play-list
+     * @param channel  the play-list channel to resume
      */
-    //% block="play play-list"
+    //% block="play play-list||on channel $channel"
     //% group="Play-list (micro:bit V2)"
     //% weight=830
     //% advanced=true
-    export function startPlaying() {
-        playerStopped = false;
-        activatePlayer();
+    //% channel.defl="main"
+    export function startPlaying(channel: string = "main") {
+        let myChannel = getChannel(channel);
+        myChannel.stopped = false;
+        activatePlayer(myChannel);
     }
 
     /**
      * delete from the play-list everything left unplayed
+     * @param channel  the play-list channel to clear
      */
-    //% block="forget play-list"
+    //% block="forget play-list||on channel $channel"
     //% group="Play-list (micro:bit V2)"
     //% weight=820
     //% advanced=true
-    export function deletePlaylist() {
-        while (playList.length > 0) { playList.pop() }
+    //% channel.defl="main"
+    export function deletePlaylist(channel: string = "main") {
+        let myChannel = getChannel(channel);
+        while (myChannel.playList.length > 0) { myChannel.playList.pop() }
     }
 
     // Accessors for internal flags...
     /**
      * return "true" if playing is currently inhibited
+     * @param channel  the play-list channel to check
      */
-    //% block="is paused"
+    //% block="is paused||on channel $channel"
     //% group="Play-list (micro:bit V2)"
     //% weight=815
     //% advanced=true
-    export function isStopped(): boolean {
-        return playerStopped;
+    //% channel.defl="main"
+    export function isStopped(channel: string = "main"): boolean {
+        return getChannel(channel).stopped;
     }
 
     /**
      * return "true" if a FlexFX is currently being played
+     * @param channel  the play-list channel to check
      */
-    //% block="is playing"
+    //% block="is playing||on channel $channel"
     //% group="Play-list (micro:bit V2)"
     //% weight=810
     //% advanced=true
-    export function isPlaying(): boolean {
-        return playerPlaying;
+    //% channel.defl="main"
+    export function isPlaying(channel: string = "main"): boolean {
+        return getChannel(channel).playing;
     }
 
     /**
      * return "true" if the background player is running
+     * @param channel  the play-list channel to check
      */
-    //% block="is active"
+    //% block="is active||on channel $channel"
     //% group="Play-list (micro:bit V2)"
     //% weight=805
     //% advanced=true
-    export function isActive(): boolean {
-        return playerActive;
+    //% channel.defl="main"
+    export function isActive(channel: string = "main"): boolean {
+        return playerActive && getChannel(channel).active;
+    }
+
+    /**
+     * set the priority of a play-list channel 
+     * (the player always serves the highest-priority channel that has something to play)
+     * @param channel  the play-list channel to adjust
+     * @param priority  its new priority (the "main" channel starts at 0, others at 1)
+     */
+    //% block="set priority of channel $channel to $priority"
+    //% group="Play-list (micro:bit V2)"
+    //% weight=800
+    //% advanced=true
+    //% channel.defl="fx"
+    //% priority.min=0 priority.max=9 priority.defl=1
+    export function setChannelPriority(channel: string, priority: number) {
+        getChannel(channel).priority = clamp(0, priority, 9);
+    }
+
+    /**
+     * return the event source-ID for a play-list channel's activity
+     * (for use with "on event" blocks)
+     * @param channel  the play-list channel
+     */
+    //% block="event source of channel $channel"
+    //% group="Play-list (micro:bit V2)"
+    //% weight=795
+    //% advanced=true
+    //% channel.defl="fx"
+    export function channelEventId(channel: string): number {
+        return getChannel(channel).eventId;
+    }
+
+    /**
+     * run some code whenever a Play (or Tune) with a given tag starts
+     * @param tag  the tag to look out for, as text (use convertToText for a number)
+     * @param handler  code to run
+     */
+    //% block="on Play tagged $tag started"
+    //% group="Play-list (micro:bit V2)"
+    //% weight=790
+    //% advanced=true
+    //% tag.defl="bark"
+    export function onPlayStarted(tag: string, handler: () => void) {
+        control.onEvent(FLEXFX_TAG_STARTED_ID, tagValue(tag), handler);
+    }
+
+    /**
+     * run some code whenever a Play (or Tune) with a given tag finishes
+     * @param tag  the tag to look out for, as text (use convertToText for a number)
+     * @param handler  code to run
+     */
+    //% block="on Play tagged $tag finished"
+    //% group="Play-list (micro:bit V2)"
+    //% weight=785
+    //% advanced=true
+    //% tag.defl="bark"
+    export function onPlayFinished(tag: string, handler: () => void) {
+        control.onEvent(FLEXFX_TAG_FINISHED_ID, tagValue(tag), handler);
+    }
+
+    /**
+     * return the tag of whatever is being played right now (or "" if nothing, or untagged)
+     * @param channel  the play-list channel to check
+     */
+    //% block="current tag||on channel $channel"
+    //% group="Play-list (micro:bit V2)"
+    //% weight=780
+    //% advanced=true
+    //% channel.defl="main"
+    export function currentTag(channel: string = "main"): string {
+        return getChannel(channel).tag;
+    }
+
+    /**
+     * return the handle of the most recently started repeating FlexFX or Tune
+     * (so it can later be cancelled)
+     */
+    //% block="latest loop"
+    //% group="Play-list (micro:bit V2)"
+    //% weight=775
+    //% advanced=true
+    export function latestLoop(): number {
+        return loopCount;
+    }
+
+    /**
+     * stop repeating a FlexFX or Tune, either once the current note has finished,
+     * or (for a Tune) at the end of the current bar
+     * @param handle  the loop to cancel (as given by "latest loop")
+     * @param atBarEnd  if true, play on to the end of the current bar (assuming 4/4 time)
+     */
+    //% block="cancel loop $handle||at end of bar? $atBarEnd"
+    //% group="Play-list (micro:bit V2)"
+    //% weight=770
+    //% advanced=true
+    //% atBarEnd.defl=true
+    export function cancelLoop(handle: number, atBarEnd: boolean = true) {
+        for (let i = 0; i < channelList.length; i++) {
+            let channel = channelList[i];
+            let list = channel.playList;
+            let keep = 0; // (the loop's Plays before this index are allowed to finish)
+            while ((keep < list.length) && 
+                ((list[keep].loop == null) || (list[keep].loop.handle != handle) || (atBarEnd && !list[keep].barStart))) {
+                keep++;
+            }
+            let kept: Play[] = [];
+            let dropped: Play[] = [];
+            for (let j = 0; j < list.length; j++) {
+                if ((j < keep) || (list[j].loop == null) || (list[j].loop.handle != handle)) {
+                    kept.push(list[j]);
+                } else {
+                    dropped.push(list[j]);
+                }
+            }
+            channel.playList = kept;
+            abandonTags(dropped);
+        }
+    }
+
+    // ---- UI BLOCKS: ENSEMBLE ----
+
+    /*
+        Several micro:bits can play together as an ensemble, over the radio.
+        A conductor broadcasts "cues", each asking for a FlexFX or a Tune to start at a given time.
+        As a radio packet is small, FlexFXs and Tunes are identified by a hash of their names 
+        (so every device must define them identically). Each cue packs into 19 bytes:
+            [0] kind of cue; [1] part (0 = all parts); [2-3] FlexFX hash; [4-5] Tune hash;
+            [6-9] conductor's clock when sent; [10-13] conductor's clock when it should start;
+        then for a FlexFX:  [14-15] pitch; [16] volume; [17-18] duration
+        or for a Tune:      [14-15] starting step; [16] volume; [17] transpose; [18] tempo (BPM/2)
+    */
+    enum CUE {
+        FLEXFX = 1,
+        TUNE = 2
+    }
+    const CUE_SIZE = 19;
+    const CUE_LEAD = 200; // default ms notice given, to allow for radio delays
+    const CUE_CHANNEL = "ensemble"; // cues get their own play-list channel (so they're never held up behind "main")
+
+    // a 16-bit hash of a FlexFX id or Tune title
+    function nameHash(name: string): number {
+        let hash = 0;
+        for (let i = 0; i < name.length; i++) {
+            hash = ((hash * 31) + name.charCodeAt(i)) & 0xFFFF;
+        }
+        return hash;
+    }
+
+    // start a cue: fill in the common fields
+    function newCue(kind: CUE, part: number, flexId: string, title: string, lead: number): Buffer {
+        let cue = control.createBuffer(CUE_SIZE);
+        let now = ensembleClock();
+        cue[0] = kind;
+        cue[1] = part;
+        cue.setNumber(NumberFormat.UInt16LE, 2, nameHash(flexId));
+        cue.setNumber(NumberFormat.UInt16LE, 4, nameHash(title));
+        cue.setNumber(NumberFormat.UInt32LE, 6, now);
+        cue.setNumber(NumberFormat.UInt32LE, 10, now + lead);
+        return cue;
+    }
+
+    // send a cue to the ensemble (and act on it here too)
+    function sendCue(cue: Buffer) {
+        radio.sendBuffer(cue);
+        receiveCue(cue);
+    }
+
+    // act on a cue (if it's for our part) by queueing it up at the right time
+    function receiveCue(cue: Buffer) {
+        if (cue.length < CUE_SIZE) return; // (not one of ours)
+        let part = cue[1];
+        if ((ensemblePart != 0) && (part != 0) && (part != ensemblePart)) return;
+        // keep our estimate of the conductor's clock up to date
+        clockOffset = cue.getNumber(NumberFormat.UInt32LE, 6) - control.millis();
+        let startAt = cue.getNumber(NumberFormat.UInt32LE, 10) - clockOffset; // (in our own time)
+        let flexHash = cue.getNumber(NumberFormat.UInt16LE, 2);
+        let flex: FlexFX = flexFXList.find(i => nameHash(i.id) === flexHash);
+        if (flex == null) return; // (we can't play it)
+        let kind = cue[0];
+        let tune: Tune = null;
+        if (kind == CUE.TUNE) {
+            let tuneHash = cue.getNumber(NumberFormat.UInt16LE, 4);
+            tune = tuneList.find(i => nameHash(i.title) === tuneHash);
+            if (tune == null) return;
+        }
+        let first = cue.getNumber(NumberFormat.Int16LE, 14);
+        let volume = cue[16];
+        control.inBackground(() => {
+            // wait for the agreed start-time, then queue it up
+            let wait = startAt - control.millis();
+            if (wait > 0) basic.pause(wait);
+            let channel = getChannel(CUE_CHANNEL);
+            if (kind == CUE.FLEXFX) {
+                channel.playList.push(flex.makeTunedPlay(first, volume, cue.getNumber(NumberFormat.Int16LE, 17)));
+            } else {
+                // (play at the conductor's tempo, except where the Tune has its own tempo markings)
+                queueTune(channel, tune, flex, first, cue.getNumber(NumberFormat.Int8LE, 17), volume, 0, "", cue[18] * 2);
+            }
+            activatePlayer(channel);
+        });
+    }
+
+    /**
+     * join an ensemble of micro:bits that play together, directed by radio
+     * @param group  the radio group used by the whole ensemble
+     * @param part  which part this micro:bit plays (or 0 to play every part)
+     */
+
+    //% block="join ensemble on radio group $group playing part $part"
+    //% group="Ensemble (micro:bit V2)"
+    //% weight=750
+    //% advanced=true
+    //% group.min=0 group.max=255 group.defl=1
+    //% part.min=0 part.max=255 part.defl=0
+    export function joinEnsemble(group: number, part: number) {
+        radio.setGroup(clamp(0, group, 255));
+        ensemblePart = clamp(0, part, 255);
+        if (!ensembleJoined) {
+            radio.onReceivedBuffer(receiveCue);
+            ensembleJoined = true;
+        }
+    }
+
+    /**
+     * (as conductor) cue the ensemble to play a FlexFX together
+     * @param flexId  the identifier of the FlexFX to be played
+     * @param part  which part should play it (or 0 for every part)
+     * @param lead  how long from now (in ms) it should start
+     * @param pitch  different base-frequency to use (in Hz)
+     * @param volumeLimit  peak volume, as a number in the range 0-255
+     * @param newDuration  how long (ms) the overall performance will last
+     */
+
+    //% block="cue FlexFX $flexId for part $part starting in (ms) $lead||at pitch $pitch|with maximum volume $volumeLimit| lasting (ms) $newDuration"
+    //% group="Ensemble (micro:bit V2)"
+    //% weight=740
+    //% advanced=true
+    //% inlineInputMode=inline
+    //% expandableArgumentMode="enabled"
+    //% flexId.defl="ting"
+    //% part.min=0 part.max=255 part.defl=0
+    //% lead.min=0 lead.max=10000 lead.defl=200
+    //% pitch.min=50 pitch.max=2000 pitch.defl=0
+    //% volumeLimit.min=0 volumeLimit.max=255 volumeLimit.defl=200
+    //% newDuration.min=0 newDuration.max=10000 newDuration.defl=800
+    export function cueFlexFX(flexId: string, part: number, lead: number = CUE_LEAD,
+        pitch: number = 0, volumeLimit: number = 0, newDuration: number = 0) {
+        let cue = newCue(CUE.FLEXFX, clamp(0, part, 255), flexId, "", clamp(0, lead, 10000));
+        cue.setNumber(NumberFormat.Int16LE, 14, clamp(0, pitch, 2000));
+        cue[16] = clamp(0, volumeLimit, 255);
+        cue.setNumber(NumberFormat.Int16LE, 17, clamp(0, newDuration, 10000));
+        sendCue(cue);
+    }
+
+    /**
+     * (as conductor) cue the ensemble to play a Tune together, at the conductor's tempo
+     * @param title  the title of the Tune to be played
+     * @param flexId  the identifier of the FlexFX to be used to play it
+     * @param part  which part should play it (or 0 for every part)
+     * @param lead  how long from now (in ms) it should start
+     * @param fromStep  which note of the Tune to start from (counting from 0)
+     * @param transpose  semitone steps by which to raise or lower all notes
+     * @param volumeLimit  peak volume for every note, in the range 0-255
+     */
+
+    //% block="cue tune $title using FlexFX $flexId for part $part starting in (ms) $lead||from note $fromStep|transposed by (semitones) $transpose|with maximum volume $volumeLimit"
+    //% group="Ensemble (micro:bit V2)"
+    //% weight=730
+    //% advanced=true
+    //% inlineInputMode=inline
+    //% expandableArgumentMode="enabled"
+    //% title.defl="birthday"
+    //% flexId.defl="ting"
+    //% part.min=0 part.max=255 part.defl=0
+    //% lead.min=0 lead.max=10000 lead.defl=200
+    //% fromStep.min=0 fromStep.defl=0
+    //% transpose.min=-60 transpose.max=60 transpose.defl=0
+    //% volumeLimit.min=0 volumeLimit.max=255 volumeLimit.defl=200
+    export function cueTune(title: string, flexId: string, part: number, lead: number = CUE_LEAD,
+        fromStep: number = 0, transpose: number = 0, volumeLimit: number = 0) {
+        let cue = newCue(CUE.TUNE, clamp(0, part, 255), flexId, title, clamp(0, lead, 10000));
+        cue.setNumber(NumberFormat.Int16LE, 14, clamp(0, fromStep, 32767));
+        cue[16] = clamp(0, volumeLimit, 255);
+        cue.setNumber(NumberFormat.Int8LE, 17, clamp(-60, transpose, 60));
+        // share our tempo, so that every part keeps in step
+        let tune: Tune = tuneList.find(i => i.title === title);
+        let bpm = ((tune != null) && (tune.bpm > 0)) ? tune.bpm : 15000 / tickMs;
+        cue[18] = clamp(15, Math.round(bpm / 2), 240);
+        sendCue(cue);
+    }
+
+    /**
+     * the ensemble's shared clock (in ms), as last heard from the conductor
+     */
+    //% block="ensemble clock (ms)"
+    //% group="Ensemble (micro:bit V2)"
+    //% weight=720
+    //% advanced=true
+    export function ensembleClock(): number {
+        return control.millis() + clockOffset;
     }
 
     // ---- UI BLOCKS: CREATING --
@@ -999,21 +4201,490 @@ namespace flexFX {
         storeFlexFX(target);
     }
 
+    /*
+        A FlexFX recipe is a one-line text version of all the calls needed to build it. 
+        It starts with "startPitch,startVolume" followed by each part as ";WAE,endPitch,endVolume,duration",
+        where W, A & E are single-letter codes for its wave-shape, attack and effect. 
+        A part that doesn't stretch proportionally adds an item: "F" (fixed), "E" (elastic),
+        or "Pmin/max" giving the limits of a proportional part. 
+        A part with an LFO adds an item "Lrate/vibrato/tremolo/shape/delay", where shape is S, T, Q or W.
+        For example, the built-in "cry" has the recipe: "400,80;QMN,600,250,300;QEN,400,30,700"
+    */
+    const RECIPE_WAVE_CODES = "XSTQWN";
+    const RECIPE_WAVES = [Wave.Silence, Wave.Sine, Wave.Triangle, Wave.Square, Wave.Sawtooth, Wave.Noise];
+    const RECIPE_ATTACK_CODES = "FMEDIOSX";
+    const RECIPE_ATTACKS = [Attack.Fast, Attack.Medium, Attack.Even, Attack.Delayed,
+        Attack.EaseIn, Attack.EaseOut, Attack.SCurve, Attack.Exponential];
+    const RECIPE_EFFECT_CODES = "NVTW";
+    const RECIPE_EFFECTS = [Effect.None, Effect.Vibrato, Effect.Tremolo, Effect.Warble];
+
+    // read a number from a recipe, (substituting a default for anything malformed)
+    function recipeNumber(field: string, otherwise: number): number {
+        let value = parseFloat(field);
+        return (isNaN(value)) ? otherwise : value;
+    }
+
+    /**
+     * create (or replace) a natural-sounding FlexFX from an ADSR envelope: the volume rises to a peak 
+     * during the attack, falls during the decay to the sustain level, holds there, then dies away during the release
+     * (when played for a different duration, only the sustain gets stretched or squashed)
+     * @param flexId  the identifier of the flexFX to be created or changed
+     * @param wave  chooses the wave-form that characterises this sound
+     * @param pitch  the frequency of the note (in Hz)
+     * @param attack  how long the volume takes to rise to its peak (in ms)
+     * @param decay  how long the volume then takes to fall to the sustain level (in ms)
+     * @param sustain  the sustain level, as a percentage of the peak volume
+     * @param release  how long the volume finally takes to die away (in ms)
+     * @param peak  the peak volume (0 to 255)
+     * @param duration  the default duration of the whole sound (in ms)
+     * @param attackPitch  a different frequency to start the attack from, for a "chiff" or "bite" (or 0 for none)
+     * @param effect  a possible modification to the sound, such as vibrato
+     */
+
+    //% block="define FlexFX $flexId from envelope| using wave-shape $wave|at pitch $pitch|attack (ms) $attack|decay (ms) $decay|sustain (percent) $sustain|release (ms) $release|peak volume $peak||default duration $duration|attack starting from pitch $attackPitch|with effect $effect"
+    //% group="Creating (micro:bit V2)"
+    //% weight=775
+    //% advanced=true
+    //% inlineInputMode=external
+    //% expandableArgumentMode="enabled"
+    //% flexId.defl="new"
+    //% pitch.min=25 pitch.max=10000 pitch.defl=440
+    //% attack.min=0 attack.max=2000 attack.defl=20
+    //% decay.min=0 decay.max=2000 decay.defl=100
+    //% sustain.min=0 sustain.max=100 sustain.defl=70
+    //% release.min=0 release.max=2000 release.defl=150
+    //% peak.min=0 peak.max=255 peak.defl=250
+    //% duration.min=0 duration.max=10000 duration.defl=800
+    //% attackPitch.min=0 attackPitch.max=10000 attackPitch.defl=0
+    //% effect.defl=Effect.None
+    export function defineEnvelopeFlexFX(flexId: string, wave: Wave, pitch: number,
+        attack: number, decay: number, sustain: number, release: number, peak: number,
+        duration: number = 800, attackPitch: number = 0, effect: Effect = Effect.None) {
+
+        pitch = clamp(25, pitch, 10000);
+        attack = clamp(0, attack, 2000);
+        decay = clamp(0, decay, 2000);
+        release = clamp(0, release, 2000);
+        peak = clamp(0, peak, 255);
+        let level = (peak * clamp(0, sustain, 100)) / 100;
+        if (attackPitch <= 0) attackPitch = pitch;
+        attackPitch = clamp(25, attackPitch, 10000);
+        // the sustain fills whatever the other phases leave of the duration (but always lasts a little while)
+        let hold = Math.max(clamp(0, duration, 10000) - attack - decay - release, 10);
+
+        // are we re-defining an existing flexFX?
+        let target: FlexFX = flexFXList.find(i => i.id === flexId);
+        if (target != null) {
+            target.initialise(); // yes, so clear it down
+        } else {
+            target = new FlexFX(flexId);    // no, so get a new one
+        }
+        // (phases given no time are simply left out)
+        if (attack > 0) {
+            target.startWith(attackPitch, 0);
+            target.addPart(wave, Attack.Fast, effect, pitch, peak, attack);
+        } else {
+            target.startWith(pitch, peak);
+        }
+        if (decay > 0) {
+            target.addPart(wave, Attack.Even, effect, pitch, level, decay);
+        }
+        let sustainPart = target.nParts;
+        target.addPart(wave, Attack.Even, effect, pitch, level, hold);
+        if (release > 0) {
+            target.addPart(wave, Attack.Even, effect, pitch, 0, release);
+        }
+        // only the sustain stretches
+        for (let i = 0; i < target.nParts; i++) {
+            target.setStretch(i, (i == sustainPart) ? Stretch.Elastic : Stretch.Fixed, 10, 9999);
+        }
+        storeFlexFX(target);
+    }
+
+    /**
+     * choose how one part of a FlexFX copes when the FlexFX is played for a different duration:
+     * a fixed part always keeps its own duration; a proportional part gets scaled along with the whole 
+     * (but within limits); and elastic parts take up whatever time is left over
+     * @param flexId  the identifier of the flexFX to be changed
+     * @param part  which part to change (counting from 0)
+     * @param stretch  how the part may stretch
+     * @param minDuration  the shortest a proportional part may become (in ms)
+     * @param maxDuration  the longest a proportional part may become (in ms)
+     */
+
+    //% block="let FlexFX $flexId part $part stretch $stretch||between (ms) $minDuration|and (ms) $maxDuration"
+    //% group="Creating (micro:bit V2)"
+    //% weight=772
+    //% advanced=true
+    //% inlineInputMode=inline
+    //% expandableArgumentMode="enabled"
+    //% flexId.defl="horn"
+    //% part.min=0 part.defl=0
+    //% stretch.defl=Stretch.Fixed
+    //% minDuration.min=10 minDuration.max=9999 minDuration.defl=10
+    //% maxDuration.min=10 maxDuration.max=9999 maxDuration.defl=9999
+    export function setPartStretch(flexId: string, part: number, stretch: Stretch,
+        minDuration: number = 10, maxDuration: number = 9999) {
+        let target: FlexFX = flexFXList.find(i => i.id === flexId);
+        if (target != null) {
+            target.setStretch(Math.round(part), stretch, minDuration, maxDuration);
+        }
+    }
+
+    /**
+     * give one part of a FlexFX a custom vibrato and/or tremolo, wobbling its pitch and/or volume 
+     * at your own rate, depth and shape (maybe only after a delay)
+     * @param flexId  the identifier of the flexFX to be changed
+     * @param part  which part to change (counting from 0)
+     * @param rate  how many wobbles per second (0.1 to 12)
+     * @param vibrato  how far the pitch wobbles either way (in cents: 100 is a semitone)
+     * @param tremolo  how far the volume dips (as a percentage)
+     * @param shape  the shape of each wobble
+     * @param delay  how long before the wobbling starts (in ms), after which it fades in
+     */
+
+    //% block="wobble FlexFX $flexId part $part at rate (Hz) $rate|vibrato (cents) $vibrato||tremolo (percent) $tremolo|shape $shape|after delay (ms) $delay"
+    //% group="Creating (micro:bit V2)"
+    //% weight=771
+    //% advanced=true
+    //% inlineInputMode=inline
+    //% expandableArgumentMode="enabled"
+    //% flexId.defl="violin"
+    //% part.min=0 part.defl=1
+    //% rate.min=0 rate.max=12 rate.defl=6
+    //% vibrato.min=0 vibrato.max=1200 vibrato.defl=30
+    //% tremolo.min=0 tremolo.max=100 tremolo.defl=0
+    //% shape.defl=LFOShape.Sine
+    //% delay.min=0 delay.max=10000 delay.defl=0
+    export function setPartLFO(flexId: string, part: number, rate: number, vibrato: number,
+        tremolo: number = 0, shape: LFOShape = LFOShape.Sine, delay: number = 0) {
+        let target: FlexFX = flexFXList.find(i => i.id === flexId);
+        if (target != null) {
+            // (no rate or depth takes any LFO away again)
+            let lfo: LFO = null;
+            if ((rate > 0) && ((vibrato > 0) || (tremolo > 0))) {
+                lfo = new LFO(rate, vibrato, tremolo, shape, delay);
+            }
+            target.setLFO(Math.round(part), lfo);
+        }
+    }
+
+    /**
+     * create (or replace) a FlexFX from its one-line text recipe
+     * @param flexId  the identifier of the flexFX to be created or changed
+     * @param recipe  the start-point and parts, like "400,80;QMN,600,250,300;QEN,400,30,700"
+     */
+
+    //% block="define FlexFX $flexId from recipe $recipe"
+    //% group="Creating (micro:bit V2)"
+    //% weight=770
+    //% advanced=true
+    //% flexId.defl="new"
+    //% recipe.defl="400,80;QMN,600,250,300;QEN,400,30,700"
+    export function defineFlexFXFromRecipe(flexId: string, recipe: string) {
+        let sections = recipe.split(";");
+        let start = sections[0].split(",");
+        let startPitch = recipeNumber(start[0], 1000);
+        let startVolume = recipeNumber(start[1], 200);
+        let defined = false;
+        let part = 0; // (counting only the well-formed parts)
+        for (let i = 1; i < sections.length; i++) {
+            let fields = sections[i].trim().split(",");
+            if (fields.length < 4) continue; // (skip any malformed part)
+            // unknown codes just get the first choice in each list (but a pure, not a silent, wave)
+            let code = fields[0].trim().toUpperCase();
+            let waveIndex = RECIPE_WAVE_CODES.indexOf(code.charAt(0));
+            let wave = RECIPE_WAVES[(waveIndex < 0) ? 1 : waveIndex];
+            let attack = RECIPE_ATTACKS[Math.max(RECIPE_ATTACK_CODES.indexOf(code.charAt(1)), 0)];
+            let effect = RECIPE_EFFECTS[Math.max(RECIPE_EFFECT_CODES.indexOf(code.charAt(2)), 0)];
+            let endPitch = recipeNumber(fields[1], startPitch);
+            let endVolume = recipeNumber(fields[2], startVolume);
+            let duration = recipeNumber(fields[3], 500);
+            if (!defined) { // (the first part replaces any existing FlexFX)
+                defineFlexFX(flexId, startPitch, startVolume, wave, attack, effect, endPitch, endVolume, duration);
+                defined = true;
+            } else {
+                extendFlexFX(flexId, wave, attack, effect, endPitch, endVolume, duration);
+            }
+            // any further items (in any order) set the part's stretch policy or LFO
+            for (let k = 4; k < fields.length; k++) {
+                let item = fields[k].trim().toUpperCase();
+                let values = item.substr(1).split("/");
+                while (values.length < 5) values.push(""); // (so missing values get defaults)
+                switch (item.charAt(0)) {
+                    case "F": setPartStretch(flexId, part, Stretch.Fixed);
+                        break;
+                    case "E": setPartStretch(flexId, part, Stretch.Elastic);
+                        break;
+                    case "P": setPartStretch(flexId, part, Stretch.Proportional,
+                        recipeNumber(values[0], 10), recipeNumber(values[1], 9999));
+                        break;
+                    case "L": setPartLFO(flexId, part, recipeNumber(values[0], 6), recipeNumber(values[1], 30),
+                        recipeNumber(values[2], 0), Math.max("STQW".indexOf(values[3]), 0), recipeNumber(values[4], 0));
+                        break;
+                }
+            }
+            part++;
+        }
+    }
+
+    /**
+     * create (or replace) a FlexFX that lies part-way between two others, 
+     * with its pitches, volumes and durations blended from both
+     * (if they have different numbers of parts, each gets resampled to the larger number)
+     * @param newId  the identifier of the flexFX to be created (or replaced)
+     * @param fromId  the identifier of the flexFX to start from
+     * @param toId  the identifier of the flexFX to morph towards
+     * @param amount  how far to morph (as a percentage): 0 gives a copy of the first, 100 of the second
+     */
+
+    //% block="morph FlexFX $fromId into $toId by $amount percent as new FlexFX $newId"
+    //% group="Creating (micro:bit V2)"
+    //% weight=755
+    //% advanced=true
+    //% newId.defl="new"
+    //% fromId.defl="woof"
+    //% toId.defl="miaow"
+    //% amount.min=0 amount.max=100 amount.defl=50
+    export function morphFlexFX(newId: string, fromId: string, toId: string, amount: number) {
+        let from: FlexFX = flexFXList.find(i => i.id === fromId);
+        let to: FlexFX = flexFXList.find(i => i.id === toId);
+        if ((from == null) || (to == null) || (from.nParts * to.nParts == 0)) return;
+        let blend = clamp(0, amount, 100) / 100;
+        // each part's style comes from whichever FlexFX is nearer
+        let nearest = (blend < 0.5) ? from : to;
+        let fromMidis = midiProfile(from);
+        let toMidis = midiProfile(to);
+        let fromTimes = timeProfile(from);
+        let toTimes = timeProfile(to);
+        let n = Math.max(from.nParts, to.nParts);
+        let target = new FlexFX(newId);
+        let time = 0;
+        for (let k = 0; k <= n; k++) {
+            // find the matching point in each (a fractional point-index, if resampled)
+            let uFrom = (k * from.nParts) / n;
+            let uTo = (k * to.nParts) / n;
+            let midi = profileAt(fromMidis, uFrom) + (profileAt(toMidis, uTo) - profileAt(fromMidis, uFrom)) * blend;
+            let pitch = Math.round(exactHertz(midi));
+            let fromVolume = profileAt(from.volumeProfile, uFrom);
+            let volume = Math.round((fromVolume + (profileAt(to.volumeProfile, uTo) - fromVolume) * blend) / 4);
+            let fromTime = profileAt(fromTimes, uFrom);
+            let nextTime = Math.round(fromTime + (profileAt(toTimes, uTo) - fromTime) * blend);
+            if (k == 0) {
+                target.startWith(pitch, volume);
+            } else {
+                // (the nearer FlexFX's part that contains the middle of this new one)
+                let part = clamp(0, Math.floor(((k - 0.5) * nearest.nParts) / n), nearest.nParts - 1);
+                target.addPartLike(nearest, part, nearest.attackProfile[part], pitch, volume, nextTime - time);
+            }
+            time = nextTime;
+        }
+        storeFlexFX(target);
+    }
+
+    /**
+     * create (or replace) a FlexFX by joining two others end-to-end
+     * (a brief extra part moves from the end of the first to the start of the second: without a crossfade, it lasts just 10 ms)
+     * @param newId  the identifier of the flexFX to be created (or replaced)
+     * @param firstId  the identifier of the flexFX to play first
+     * @param secondId  the identifier of the flexFX to play second
+     * @param crossfade  the duration (ms) of that extra part, moving smoothly between them (or 0 to jump straight across)
+     */
+
+    //% block="join FlexFX $firstId then $secondId as new FlexFX $newId||with crossfade (ms) $crossfade"
+    //% group="Creating (micro:bit V2)"
+    //% weight=754
+    //% advanced=true
+    //% inlineInputMode=inline
+    //% expandableArgumentMode="enabled"
+    //% newId.defl="new"
+    //% firstId.defl="woof"
+    //% secondId.defl="miaow"
+    //% crossfade.min=0 crossfade.max=2000 crossfade.defl=0
+    export function joinFlexFX(newId: string, firstId: string, secondId: string, crossfade: number = 0) {
+        let first: FlexFX = flexFXList.find(i => i.id === firstId);
+        let second: FlexFX = flexFXList.find(i => i.id === secondId);
+        if ((first == null) || (second == null)) return;
+        let target = new FlexFX(newId);
+        target.startWith(first.pitchProfile[0], first.volumeProfile[0] / 4);
+        for (let i = 0; i < first.nParts; i++) {
+            target.addPartLike(first, i, first.attackProfile[i],
+                first.pitchProfile[i + 1], first.volumeProfile[i + 1] / 4, first.durationProfile[i]);
+        }
+        // (move across to the second one's start, however briefly)
+        target.addPartLike(second, 0, Attack.Even, second.pitchProfile[0], second.volumeProfile[0] / 4, clamp(10, crossfade, 2000));
+        for (let i = 0; i < second.nParts; i++) {
+            target.addPartLike(second, i, second.attackProfile[i],
+                second.pitchProfile[i + 1], second.volumeProfile[i + 1] / 4, second.durationProfile[i]);
+        }
+        storeFlexFX(target);
+    }
+
+    /**
+     * create (or replace) a FlexFX by playing another one backwards
+     * @param newId  the identifier of the flexFX to be created (or replaced)
+     * @param flexId  the identifier of the flexFX to be reversed
+     */
+
+    //% block="reverse FlexFX $flexId as new FlexFX $newId"
+    //% group="Creating (micro:bit V2)"
+    //% weight=753
+    //% advanced=true
+    //% newId.defl="new"
+    //% flexId.defl="chime"
+    export function reverseFlexFX(newId: string, flexId: string) {
+        let source: FlexFX = flexFXList.find(i => i.id === flexId);
+        if (source == null) return;
+        let target = new FlexFX(newId);
+        let last = source.nParts;
+        target.startWith(source.pitchProfile[last], source.volumeProfile[last] / 4);
+        for (let i = last - 1; i >= 0; i--) {
+            target.addPartLike(source, i, reversedAttack(source.attackProfile[i]),
+                source.pitchProfile[i], source.volumeProfile[i] / 4, source.durationProfile[i]);
+        }
+        storeFlexFX(target);
+    }
+
+    /**
+     * create (or replace) a FlexFX by turning the pitch-changes of another one upside-down,
+     * mirroring them around its average pitch (so rising parts fall, and falling parts rise)
+     * @param newId  the identifier of the flexFX to be created (or replaced)
+     * @param flexId  the identifier of the flexFX to be inverted
+     */
+
+    //% block="invert pitches of FlexFX $flexId as new FlexFX $newId"
+    //% group="Creating (micro:bit V2)"
+    //% weight=752
+    //% advanced=true
+    //% newId.defl="new"
+    //% flexId.defl="cry"
+    export function invertFlexFX(newId: string, flexId: string) {
+        let source: FlexFX = flexFXList.find(i => i.id === flexId);
+        if (source == null) return;
+        // (mirroring musically, so an octave above the average becomes an octave below)
+        let midis = midiProfile(source);
+        let centre = hertzToMidi(source.pitchAverage);
+        let target = new FlexFX(newId);
+        target.startWith(Math.round(exactHertz(2 * centre - midis[0])), source.volumeProfile[0] / 4);
+        for (let i = 0; i < source.nParts; i++) {
+            target.addPartLike(source, i, source.attackProfile[i], Math.round(exactHertz(2 * centre - midis[i + 1])),
+                source.volumeProfile[i + 1] / 4, source.durationProfile[i]);
+        }
+        storeFlexFX(target);
+    }
+
+    /**
+     * create (or replace) a FlexFX by permanently re-tuning another one to a new average pitch, 
+     * peak volume and/or duration (as playing it would, but saved as a new FlexFX)
+     * @param newId  the identifier of the flexFX to be created (or replaced)
+     * @param flexId  the identifier of the flexFX to be rescaled
+     * @param pitch  the new average pitch (in Hz), or 0 to leave it unchanged
+     * @param volumeLimit  the new peak volume (0-255), or 0 to leave it unchanged
+     * @param duration  the new overall duration (in ms), or 0 to leave it unchanged
+     */
+
+    //% block="rescale FlexFX $flexId as new FlexFX $newId||to pitch $pitch|with maximum volume $volumeLimit|lasting (ms) $duration"
+    //% group="Creating (micro:bit V2)"
+    //% weight=751
+    //% advanced=true
+    //% inlineInputMode=inline
+    //% expandableArgumentMode="enabled"
+    //% newId.defl="new"
+    //% flexId.defl="miaow"
+    //% pitch.min=0 pitch.max=10000 pitch.defl=0
+    //% volumeLimit.min=0 volumeLimit.max=255 volumeLimit.defl=0
+    //% duration.min=0 duration.max=10000 duration.defl=0
+    export function rescaleFlexFX(newId: string, flexId: string, pitch: number = 0, volumeLimit: number = 0, duration: number = 0) {
+        let source: FlexFX = flexFXList.find(i => i.id === flexId);
+        if (source == null) return;
+        // (code defensively, as makeTunedPlay() does!)
+        let pitchRatio = 1.0;
+        let volumeRatio = 1.0;
+        if (pitch * source.pitchAverage > 0) pitchRatio = pitch / source.pitchAverage;
+        if (volumeLimit * source.peakVolume > 0) volumeRatio = (volumeLimit * 4) / source.peakVolume;
+        let durations = source.durationProfile;
+        if ((duration * source.fullDuration > 0) && (duration != source.fullDuration)) {
+            durations = source.stretchedDurations(duration); // (respecting any stretch policies)
+        }
+        let target = new FlexFX(newId);
+        target.startWith(Math.round(source.pitchProfile[0] * pitchRatio), Math.round((source.volumeProfile[0] * volumeRatio) / 4));
+        for (let i = 0; i < source.nParts; i++) {
+            target.addPartLike(source, i, source.attackProfile[i], Math.round(source.pitchProfile[i + 1] * pitchRatio),
+                Math.round((source.volumeProfile[i + 1] * volumeRatio) / 4), Math.round(durations[i]));
+        }
+        storeFlexFX(target);
+    }
+
+    /**
+     * write out a FlexFX as a one-line text recipe
+     * (returns an empty string if there is no such FlexFX)
+     * @param flexId  the identifier of the flexFX to be written out
+     */
+
+    //% block="recipe for FlexFX $flexId"
+    //% group="Creating (micro:bit V2)"
+    //% weight=760
+    //% advanced=true
+    //% flexId.defl="cry"
+    export function flexFXToRecipe(flexId: string): string {
+        let target: FlexFX = flexFXList.find(i => i.id === flexId);
+        if (target == null) return "";
+        let recipe = convertToText(target.pitchProfile[0]) + "," + convertToText(target.volumeProfile[0] / 4);
+        for (let i = 0; i < target.nParts; i++) {
+            recipe += ";" + RECIPE_WAVE_CODES.charAt(RECIPE_WAVES.indexOf(target.waveProfile[i]))
+                + RECIPE_ATTACK_CODES.charAt(RECIPE_ATTACKS.indexOf(target.attackProfile[i]))
+                + RECIPE_EFFECT_CODES.charAt(RECIPE_EFFECTS.indexOf(target.effectProfile[i]))
+                + "," + convertToText(target.pitchProfile[i + 1])
+                + "," + convertToText(target.volumeProfile[i + 1] / 4)
+                + "," + convertToText(target.durationProfile[i]);
+            switch (target.stretchProfile[i]) {
+                case Stretch.Fixed: recipe += ",F";
+                    break;
+                case Stretch.Elastic: recipe += ",E";
+                    break;
+                default:
+                    if ((target.minProfile[i] > 10) || (target.maxProfile[i] < 9999)) {
+                        recipe += ",P" + convertToText(target.minProfile[i]) + "/" + convertToText(target.maxProfile[i]);
+                    }
+            }
+            if (target.lfoProfile[i] != null) {
+                recipe += "," + target.lfoProfile[i].toRecipe();
+            }
+        }
+        return recipe;
+    }
+
     // general initialisation...
     // lists...
     // Array of all defined FlexFX objects (built-in and user-defined)
     let flexFXList: FlexFX[] = [];
-    // Performances get queued onto the play-list to ensure proper asynchronous sequencing
-    let playList: Play[] = [];
+    // Performances get queued onto the play-lists of named channels (the first being "main")
+    let channelList: PlayChannel[] = [new PlayChannel("main", FLEXFX_ACTIVITY_ID, 0)];
     // Tunes can be registered separately from FlexFXs
     // You can then mix & match them using playTune(flexId,title)
     let tuneList: Tune[] = [];
+    // Tags get their own event values (one more than their index in this list)
+    let tagList: string[] = [];
     let tickMs = DEFAULT_TICKMS; // default tune speed
-
-    // control flags:
-    let playerPlaying = false; // a performance is being played
-    let playerActive = false;
-    let playerStopped = false; // activation of player inhibited for now
+    let swingRatio = 50; // percentage of each beat taken by its on-beat quaver (50 = straight)
+    let humaniseAmount = 0; // percentage of the maximum random variations to apply to Tunes
+    let humaniseSeed = 0; // (so the variations are repeatable)
+    let concertPitch = 440; // frequency (Hz) of A4
+    let tuningCents: number[] = TUNING_CENTS[Tuning.Equal]; // current tuning's offsets from equal temperament
+    let tuningKey = 0; // semitone-in-octave [0 to 11] of the key-note the current tuning is built on
+    let strictScores = false; // reject (rather than beep) malformed EKO scores
+    let lastChecked: Tune = null; // the most recently checked (or composed) Tune, for its diagnostics
+    let ensemblePart = 0; // which part of an ensemble we play (0 = all of them)
+    let ensembleJoined = false; // (so we only listen for cues once)
+    let clockOffset = 0; // how far ahead of our clock the conductor's is
+
+    // control flag:
+    let playerActive = false; // the background player fiber is running
+    let playerWaiting = false; // the player is asleep until the next silence ends
+    let playerFiber = 0; // identifies the latest player fiber to be launched
+    let soundingPlay: Play = null; // the Play currently being sounded (if any)
+    let loopCount = 0; // how many Loops have been started (providing each with a handle)
+    let playCount = 0; // how many Plays have been built (providing each with a sequence number)
 
     // Populate the FlexFX array with the selection of built-in sounds
     function populateBuiltInFlexFXs() {
@@ -226,6 +226,72 @@ flexFX.playTune("noteTest", "chime");
 basic.showIcon(IconNames.Yes);
 pause(2000);
 
+// check the diagnosis of bad EKO notes
+basic.showIcon(IconNames.Target);
+basic.showNumber(flexFX.checkScore(tryKey)); // (6 mistakes, including two empty notes)
+basic.showNumber(flexFX.scoreMistakeItem()); // (0)
+basic.showNumber(flexFX.scoreMistakeOffset()); // (1)
+basic.showString(flexFX.scoreMistakeReason()); // "bad key letter"
+basic.showNumber(flexFX.checkScore(tryOctave)); // (4 mistakes, including three empty notes)
+basic.showString(flexFX.scoreMistakeReason()); // "missing octave"
+// strict scores are rejected (so the old noteTest remains unchanged)
+flexFX.onScoreRejected(function () {
+    basic.showIcon(IconNames.No);
+});
+flexFX.setStrictScores(true);
+flexFX.composeTune("noteTest", tryExtent);
+flexFX.setStrictScores(false);
+flexFX.playTune("noteTest", "chime");
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check dynamics markings: levels, crescendo, diminuendo and accents
+basic.showIcon(IconNames.Target);
+flexFX.composeTune("dynamicTest", "pp 4C4 4C4 p 4C4 4C4 mp 4C4 4C4 mf 4C4 4C4 f 4C4 4C4 ff 4C4 4C4");
+flexFX.extendTune("dynamicTest", "pp < 2C4 2D4 2E4 2F4 2G4 2A4 2B4 ff 4C5 > 2B4 2A4 2G4 2F4 2E4 2D4 2C4 pp 4C4");
+flexFX.extendTune("dynamicTest", "mp 2G4 2G4 2G4! 2G4 2G4 2G4 2G4! 2G4");
+flexFX.playTune("dynamicTest", "horn", true, 0, 250);
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check importing from ABC-notation (with key-signature, repeats, a triplet and a tie)
+basic.showIcon(IconNames.Target);
+flexFX.importABCTune("", "X:1\nT:abcTest\nM:4/4\nL:1/8\nQ:1/4=96\nK:Emin\n|:D2|EBBA B2 EB|B2 AB dBAG:|\n(3Bcd e2 e4-|e8|]");
+flexFX.playTune("abcTest", "flute");
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check importing from a MIDI file (tempo on track 0; rest, note, chord, gap & note on track 1)
+basic.showIcon(IconNames.Target);
+flexFX.importMidiHex("midiTest", "4d546864000000060001000201e04d54726b0000000b00ff510307a12000ff2f004d54726b000000278360903c648360803c000090404000437f81704300817040008170913e5a8740813e0000ff2f00", 1);
+flexFX.playTune("midiTest", "horn");
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check RTTTL import and export (round-trip "The Simpsons" then "Happy Birthday")
+basic.showIcon(IconNames.Target);
+let ringtone = flexFX.importRTTTL("simpsons:d=4,o=5,b=160:c.6,e6,f#6,8a6,g.6,e6,c6,8a,8f#,8f#,8f#,2g");
+flexFX.playTune(ringtone, "tweet");
+flexFX.playTune(flexFX.importRTTTL(flexFX.exportRTTTL(ringtone)), "chime");
+basic.showString(flexFX.exportRTTTL("birthday"));
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check that Tunes can be written out in EKO-notation, and re-composed
+basic.showIcon(IconNames.Target);
+serial.writeLine(flexFX.tuneToEKO("ifYoureHappy")); // (spelt with flats)
+serial.writeLine(flexFX.tuneToEKO("dynamicTest")); // (with dynamics markings)
+flexFX.composeTune("copyTest", flexFX.tuneToEKO("bachViolin"));
+flexFX.playTune("copyTest", "violin");
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
 // check asynchrony of tunes
 basic.showIcon(IconNames.Target);
 flexFX.stopPlaying();
@@ -310,6 +376,327 @@ while (flexFX.isActive()) {
 basic.showIcon(IconNames.Yes);
 pause(2000);
 
+// check ensemble cues (as a lone conductor, playing every part)
+basic.showIcon(IconNames.Target);
+flexFX.joinEnsemble(7, 0);
+flexFX.cueFlexFX("chime", 1, 200, Note.C5, 200, 500);
+flexFX.cueTune("thisOldMan", "flute", 2, 1000, 4);
+flexFX.cueTune("thisOldMan", "chime", 1, 3000);
+pause(3100); // (by now, every cue should have been queued on the "ensemble" channel)
+let cued = flexFX.isActive("ensemble");
+while (flexFX.isActive("ensemble")) {
+    basic.showNumber(Math.idiv(flexFX.ensembleClock(), 1000) % 10);
+}
+if (cued) {
+    basic.showIcon(IconNames.Happy);
+} else {
+    basic.showIcon(IconNames.No);
+}
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check FlexFX recipes: copy the built-in "uhoh" (with its silent part) and play both
+basic.showIcon(IconNames.Target);
+serial.writeLine(flexFX.flexFXToRecipe("uhoh"));
+flexFX.defineFlexFXFromRecipe("uhohCopy", flexFX.flexFXToRecipe("uhoh"));
+flexFX.playFlexFX("uhoh");
+flexFX.playFlexFX("uhohCopy");
+flexFX.defineFlexFXFromRecipe("squawk", "800,100;WFN,1200,250,100;QEN,600,50,400");
+flexFX.playFlexFX("squawk");
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check play-list channels: music on "main", with barks on an "fx" channel cutting in
+basic.showIcon(IconNames.Target);
+flexFX.playTune("londonBridge", "flute", false);
+flexFX.stopPlaying("fx"); // (so we can queue several barks first)
+flexFX.playFlexFX("woof", false, 0, 0, 0, "fx");
+flexFX.playSilence(1500, "fx"); // (the music carries on meanwhile)
+flexFX.playFlexFX("woof", false, 0, 0, 0, "fx");
+pause(1000);
+flexFX.startPlaying("fx");
+flexFX.awaitPlayStart("fx");
+basic.showIcon(IconNames.Surprised);
+flexFX.awaitAllFinished("fx");
+basic.showIcon(IconNames.Happy);
+flexFX.awaitAllFinished();
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check urgent Plays: interrupt a Tune (resuming it), then interrupt it again (abandoning it)
+basic.showIcon(IconNames.Target);
+flexFX.playTune("odeToJoy", "violin", false);
+pause(1500);
+flexFX.playFlexFXUrgently("uhoh", 5, true, true);
+pause(2000);
+flexFX.playFlexFXUrgently("woof", 9, true, false);
+flexFX.awaitAllFinished();
+basic.showNumber(flexFX.waitingToPlay()); // (should be 0)
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check tagged Plays: show a face for each tagged sound, and the tags as they play
+basic.showIcon(IconNames.Target);
+flexFX.onPlayStarted("bark", function () {
+    basic.showIcon(IconNames.Angry);
+});
+flexFX.onPlayFinished("bark", function () {
+    basic.clearScreen();
+});
+flexFX.onPlayFinished("song", function () {
+    basic.showIcon(IconNames.Happy);
+});
+flexFX.playFlexFX("woof", false, 0, 0, 0, "main", "bark");
+flexFX.playSilence(500, "main", "gap");
+flexFX.playTune("birthday", "ting", false, 0, 0, 0, "main", "song");
+flexFX.playFlexFX("woof", false, 0, 0, 0, "main", "bark");
+while (flexFX.isActive()) {
+    serial.writeLine(flexFX.currentTag());
+    pause(200);
+}
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check Loops: three barks, then an endless Tune, cancelled at the end of a bar after a few seconds
+basic.showIcon(IconNames.Target);
+flexFX.playFlexFX("woof", true, 0, 0, 0, "main", "", 3);
+flexFX.playTune("londonBridge", "hum", true, 0, 200, 0, "main", "", 0); // (an endless Loop never waits)
+let musicLoop = flexFX.latestLoop();
+flexFX.playFlexFX("woof", false); // (heard between two repetitions)
+pause(12000);
+basic.showNumber(flexFX.waitingToPlay()); // (the notes left in the current repetition, plus one for the Loop's marker)
+flexFX.cancelLoop(musicLoop);
+flexFX.awaitAllFinished();
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check tempo markings: speed up through a scale, then slow right down at the end
+basic.showIcon(IconNames.Target);
+flexFX.composeTune("rubato", "=90 4C4 ~ 4D4 4E4 4F4 =240 4G4 4A4 4B4 ~ 4C5 4B4 4A4 =40 8G4");
+serial.writeLine(flexFX.tuneToEKO("rubato"));
+flexFX.playTune("rubato", "flute");
+flexFX.playTune("rubato", "flute", true, 0, 200, 4000); // (squashed into 4 seconds)
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check slurs and glides: play the same phrase detached, then legato
+basic.showIcon(IconNames.Target);
+flexFX.composeTune("swoop", "4C4_ 4E4_ 4G4_ 4C5/ 8G5 4R 2G4_ 2A4_ 2B4_ 2C5_ 8D5/ 12C5");
+serial.writeLine(flexFX.tuneToEKO("swoop"));
+flexFX.playTune("swoop", "violin");
+flexFX.playTune("swoop", "violin", true, 0, 200, 0, "main", "", 1, true);
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check the arpeggiator: build a backing Tune from chords, then add a final chord
+basic.showIcon(IconNames.Target);
+flexFX.arpeggiate("backing", "C Am Fmaj7 G7", "updown", 2, 3, 2);
+flexFX.arpeggiate("backing", "Dsus4 C", "0,2,1,2", 2, 3, 1, true);
+serial.writeLine(flexFX.tuneToEKO("backing"));
+flexFX.playTune("backing", "hum");
+flexFX.arpeggiate("strum", "C X G", "up", 2, 4, 1); // (the unknown "X" is skipped, but reported)
+if ((flexFX.scoreMistakeItem() == 1) && (flexFX.tuneToEKO("strum") == "2C4 2E4 2G4 2G4 2B4 2D5")) {
+    basic.showIcon(IconNames.Happy);
+} else {
+    basic.showIcon(IconNames.No);
+}
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check the melody generator: the same seed must make the same Tune
+basic.showIcon(IconNames.Target);
+flexFX.makeUpTune("madeUp", 2024);
+flexFX.makeUpTune("madeUpAgain", 2024);
+if (flexFX.tuneToEKO("madeUp") == flexFX.tuneToEKO("madeUpAgain")) {
+    basic.showIcon(IconNames.Happy);
+} else {
+    basic.showIcon(IconNames.Sad);
+}
+serial.writeLine(flexFX.tuneToEKO("madeUp"));
+flexFX.playTune("madeUp", "flute");
+flexFX.makeUpTune("bluesy", 7, flexFX.Scale.Blues, "A3", 2, 3, 40, true);
+flexFX.playTune("bluesy", "horn");
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check swing and humanising: play the same Tune straight, swung, then humanised
+basic.showIcon(IconNames.Target);
+flexFX.playTune("jingleBells", "ting");
+flexFX.setSwing(67);
+flexFX.playTune("jingleBells", "ting");
+flexFX.setSwing(50);
+flexFX.setHumanise(60, 42);
+flexFX.playTune("jingleBells", "ting");
+flexFX.setHumanise(0); // (back to normal)
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check key signatures, then moving a Tune into another key, and into the minor
+basic.showIcon(IconNames.Target);
+flexFX.composeTune("inD", "K:D 4D4 4E4 4F4 4G4 4A4 4B4 4C5 8D5 4Cn5 4B4 8A4");
+flexFX.playTune("inD", "flute");
+flexFX.transposeToKey("birthday", "G", "birthdayInG");
+flexFX.playTune("birthdayInG", "flute");
+flexFX.changeMode("birthday", true, "sadBirthday");
+flexFX.playTune("sadBirthday", "violin");
+if ((flexFX.tuneToEKO("inD") == "K:D 4D4 4E4 4F4 4G4 4A4 4B4 4C5 8D5 4Cn5 4B4 8A4")
+    && (flexFX.tuneToEKO("sadBirthday") == "K:Cm 2G4 1G4 3A4 3G4 3C5 6B4 2G4 1G4 3A4 3G4 3D5 6C5 2G4 1G4 3G5 3E5 3C5 3B4 6A4 2F5 1F5 3E5 3C5 3D5 6C5")) {
+    basic.showIcon(IconNames.Happy);
+} else {
+    basic.showIcon(IconNames.No);
+}
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check tunings, concert pitch and microtones: the same chords in equal temperament, then just intonation
+basic.showIcon(IconNames.Target);
+flexFX.composeTune("chords", "2C4 2E4 2G4 2C5 2F4 2A4 2C5 2F5 2G4 2B4 2D5 2G5 8C5");
+flexFX.playTune("chords", "ting");
+flexFX.setTuning(flexFX.Tuning.Just, "C");
+flexFX.playTune("chords", "ting");
+flexFX.setConcertPitch(415);
+flexFX.playTune("chords", "ting");
+flexFX.setTuning(flexFX.Tuning.Equal);
+flexFX.setConcertPitch(440); // (back to normal)
+flexFX.composeTune("quarterTones", "4C4 4D4 4E4-50 4F4 4G4 4A4 4B4-50 8C5");
+flexFX.playTune("quarterTones", "flute");
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check the software attack-curves: the same rising sweep with each one in turn
+basic.showIcon(IconNames.Target);
+flexFX.defineFlexFX("sweep", 200, 200, flexFX.Wave.Sine, flexFX.Attack.Delayed, flexFX.Effect.None, 1600, 200, 800);
+flexFX.playFlexFX("sweep", true);
+flexFX.defineFlexFX("sweep", 200, 200, flexFX.Wave.Sine, flexFX.Attack.EaseIn, flexFX.Effect.None, 1600, 200, 800);
+flexFX.playFlexFX("sweep", true);
+flexFX.defineFlexFX("sweep", 200, 200, flexFX.Wave.Sine, flexFX.Attack.EaseOut, flexFX.Effect.None, 1600, 200, 800);
+flexFX.playFlexFX("sweep", true);
+flexFX.defineFlexFX("sweep", 200, 200, flexFX.Wave.Sine, flexFX.Attack.SCurve, flexFX.Effect.None, 1600, 200, 800);
+flexFX.playFlexFX("sweep", true);
+flexFX.defineFlexFX("sweep", 200, 200, flexFX.Wave.Sine, flexFX.Attack.Exponential, flexFX.Effect.None, 1600, 200, 800);
+flexFX.playFlexFX("sweep", true, 400, 250, 1600); // (re-tuned, so its curve gets scaled too)
+flexFX.defineFlexFX("hold", 440, 200, flexFX.Wave.Sine, flexFX.Attack.EaseIn, flexFX.Effect.None, 440, 200, 500);
+flexFX.playFlexFX("hold", true); // (a curve with nowhere to go: just a steady tone)
+if (flexFX.flexFXToRecipe("sweep") == "200,200;SXN,1600,200,800") {
+    basic.showIcon(IconNames.Happy);
+} else {
+    basic.showIcon(IconNames.No);
+}
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check envelope FlexFXs: short and long notes should keep the same attack and release
+basic.showIcon(IconNames.Target);
+flexFX.defineEnvelopeFlexFX("pluck", flexFX.Wave.Triangle, 440, 5, 150, 30, 300, 250, 800, 880);
+flexFX.playFlexFX("pluck", true, 440, 250, 500);
+flexFX.playFlexFX("pluck", true, 440, 250, 2000);
+flexFX.defineEnvelopeFlexFX("bowed", flexFX.Wave.Sawtooth, 330, 200, 100, 80, 250, 200, 1000, 0, flexFX.Effect.Vibrato);
+flexFX.playTune("birthday", "bowed");
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check stretch policies: a long "horn" note, before and after fixing its start and finish
+// (working on a copy, so the built-in "horn" stays as it was)
+basic.showIcon(IconNames.Target);
+flexFX.defineFlexFXFromRecipe("myHorn", flexFX.flexFXToRecipe("horn"));
+flexFX.playFlexFX("myHorn", true, 250, 200, 3000);
+flexFX.setPartStretch("myHorn", 0, flexFX.Stretch.Fixed);
+flexFX.setPartStretch("myHorn", 2, flexFX.Stretch.Fixed);
+flexFX.playFlexFX("myHorn", true, 250, 200, 3000);
+flexFX.setPartStretch("myHorn", 1, flexFX.Stretch.Proportional, 100, 1000);
+flexFX.setPartStretch("myHorn", 2, flexFX.Stretch.Elastic);
+flexFX.playFlexFX("myHorn", true, 250, 200, 3000);
+if ((flexFX.flexFXToRecipe("myHorn") == "25,127;WFN,250,255,25,F;SEN,250,255,600,P100/1000;SEN,200,0,70,E")
+    && (flexFX.flexFXToRecipe("horn") == "25,127;WFN,250,255,25;SEN,250,255,600;SEN,200,0,70")) {
+    basic.showIcon(IconNames.Happy);
+} else {
+    basic.showIcon(IconNames.No);
+}
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check software LFOs: the violin with a delayed vibrato, then a flute with a slow tremolo
+basic.showIcon(IconNames.Target);
+flexFX.setPartLFO("violin", 1, 6, 40, 10, flexFX.LFOShape.Sine, 150);
+let wobbly = flexFX.flexFXToRecipe("violin");
+flexFX.playTune("bachViolin", "violin");
+flexFX.setPartLFO("violin", 1, 0, 0); // (back to normal)
+if ((wobbly == "25,200;WFN,440,150,50;WEN,440,150,425,L6/40/10/S/150;WEN,44,200,25")
+    && (flexFX.flexFXToRecipe("violin") == "25,200;WFN,440,150,50;WEN,440,150,425;WEN,44,200,25")) {
+    basic.showIcon(IconNames.Happy);
+} else {
+    basic.showIcon(IconNames.No);
+}
+flexFX.setPartLFO("flute", 1, 3, 0, 40, flexFX.LFOShape.Triangle);
+flexFX.playTune("edelweiss", "flute");
+flexFX.setPartLFO("flute", 1, 0, 0);
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check morphing: a woof gradually turning into a miaow
+basic.showIcon(IconNames.Target);
+for (let step = 0; step <= 4; step++) {
+    flexFX.morphFlexFX("woofMiaow", "woof", "miaow", step * 25);
+    flexFX.playFlexFX("woofMiaow", true);
+}
+// (at 0% it's just a copy; at 100% it's the miaow, resampled into the woof's three parts)
+flexFX.morphFlexFX("woofMiaow", "woof", "miaow", 0);
+let unmorphed = flexFX.flexFXToRecipe("woofMiaow");
+flexFX.morphFlexFX("woofMiaow", "woof", "miaow", 100);
+if ((unmorphed == flexFX.flexFXToRecipe("woof"))
+    && (flexFX.flexFXToRecipe("woofMiaow") == "630,127;WEN,799,212,200;WEN,869,237,333;WEN,810,200,467")) {
+    basic.showIcon(IconNames.Happy);
+} else {
+    basic.showIcon(IconNames.No);
+}
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
+// check transformations: joining, reversing, inverting and rescaling
+basic.showIcon(IconNames.Target);
+flexFX.joinFlexFX("miaowWoof", "miaow", "woof", 150);
+flexFX.playFlexFX("miaowWoof", true);
+flexFX.joinFlexFX("woofMiaow", "woof", "miaow"); // (the miaow still starts at its own pitch)
+flexFX.playFlexFX("woofMiaow", true);
+flexFX.reverseFlexFX("emihc", "chime");
+flexFX.playFlexFX("chime", true);
+flexFX.playFlexFX("emihc", true);
+flexFX.reverseFlexFX("chimeAgain", "emihc");
+flexFX.invertFlexFX("yrc", "cry");
+flexFX.playFlexFX("cry", true);
+flexFX.playFlexFX("yrc", true);
+flexFX.rescaleFlexFX("bigMiaow", "miaow", 300, 250, 2000);
+flexFX.playFlexFX("bigMiaow", true);
+if ((flexFX.flexFXToRecipe("woofMiaow")
+    == "50,200;QFV,100,250,50;WMN,450,250,200;WEN,150,90,75;WEN,630,127,10;WEN,900,255,300;WEN,810,200,700")
+    && (flexFX.flexFXToRecipe("chimeAgain") == flexFX.flexFXToRecipe("chime"))
+    && (flexFX.flexFXToRecipe("bigMiaow") == "228,125;WEN,326,250,600;WEN,293,196,1400")) {
+    basic.showIcon(IconNames.Happy);
+} else {
+    basic.showIcon(IconNames.No);
+}
+
+basic.showIcon(IconNames.Yes);
+pause(2000);
+
 // Queue up a very big playlist (573 Plays)
 basic.showIcon(IconNames.Target);
 basic.pause(500);